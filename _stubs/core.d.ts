@@ -21,6 +21,22 @@ export interface ToolSelfRegConfig {
   category?: string;
 }
 
+/**
+ * Five-field cron expression (minute hour day-of-month month day-of-week)
+ * or a macro such as "@daily". The type only checks the shape —
+ * `bun run validate` checks every field.
+ */
+export type CronSchedule = `@${string}` | `${string} ${string} ${string} ${string} ${string}`;
+
+export interface CronSelfRegConfig {
+  name: string;
+  description: string;
+  schedule: CronSchedule;
+  /** IANA time zone the schedule is evaluated in (defaults to UTC) */
+  timezone?: string;
+  handler: () => Promise<void> | void;
+}
+
 export interface StorageProvider {
   conversations: any;
   memory: any;
@@ -32,3 +48,4 @@ export interface StorageProvider {
 
 export function registerAgent(config: AgentSelfRegConfig): void;
 export function registerTool(config: ToolSelfRegConfig): void;
+export function registerCron(config: CronSelfRegConfig): void;
@@ -0,0 +1,10 @@
+import { registerCron } from "@kitn/core";
+
+registerCron({
+  name: "example-cron",
+  description: "A minimal example cron job that logs a daily heartbeat",
+  schedule: "0 9 * * *",
+  handler: async () => {
+    console.log(`[example-cron] heartbeat at ${new Date().toISOString()}`);
+  },
+});
@@ -0,0 +1,8 @@
+export interface GreetingOptions {
+  name: string;
+  punctuation?: string;
+}
+
+export function formatGreeting({ name, punctuation = "!" }: GreetingOptions): string {
+  return `Hello, ${name}${punctuation}`;
+}
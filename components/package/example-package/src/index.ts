@@ -0,0 +1,2 @@
+export { formatGreeting } from "./format/greeting.js";
+export type { GreetingOptions } from "./format/greeting.js";
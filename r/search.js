@@ -0,0 +1,92 @@
+// Generated from src/search.ts by bun run build — do not edit
+export const searchFields = ["name", "categories", "skill", "exports", "description"];
+const fieldWeights = { name: 10, categories: 5, skill: 3, exports: 4, description: 2 };
+const stopWords = new Set(["an", "and", "for", "from", "in", "is", "it", "of", "on", "or", "the", "to", "with"]);
+export function tokenize(text) {
+  return text.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2").toLowerCase().split(/[^a-z0-9]+/).filter((token) => token.length > 1 && !stopWords.has(token));
+}
+export function buildSearchIndex(documents) {
+  const terms = new Map;
+  for (const [doc, document] of documents.entries()) {
+    const fieldText = {
+      name: [document.name],
+      categories: document.categories ?? [],
+      skill: document.skill ? [document.skill.description, ...document.skill.tags ?? []] : [],
+      exports: document.exports ?? [],
+      description: [document.description]
+    };
+    const masks = new Map;
+    for (const [bit, field] of searchFields.entries()) {
+      for (const token of fieldText[field].flatMap(tokenize))
+        masks.set(token, (masks.get(token) ?? 0) | 1 << bit);
+    }
+    for (const [token, mask] of masks) {
+      const postings = terms.get(token) ?? [];
+      postings.push([doc, mask]);
+      terms.set(token, postings);
+    }
+  }
+  return {
+    $schema: "https://kitn.dev/schema/search-index.json",
+    version: 1,
+    fields: [...searchFields],
+    documents: documents.map(({ name, type, description, deprecated }) => deprecated ? { name, type, description, deprecated: true } : { name, type, description }),
+    terms: Object.fromEntries([...terms].sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0))
+  };
+}
+export function searchRegistry(index, query, options = {}) {
+  const tokens = tokenize(query);
+  if (tokens.length === 0)
+    return [];
+  const typingLastWord = !/\s$/.test(query);
+  let scores;
+  for (const [i, token] of tokens.entries()) {
+    const matches = new Map;
+    const collect = (term, factor) => {
+      const postings = Object.hasOwn(index.terms, term) ? index.terms[term] : [];
+      for (const [doc, mask] of postings) {
+        const score = bestWeight(index.fields, mask) * factor;
+        if (score > (matches.get(doc) ?? 0))
+          matches.set(doc, score);
+      }
+    };
+    collect(token, 1);
+    if (typingLastWord && i === tokens.length - 1) {
+      for (const term of Object.keys(index.terms)) {
+        if (term !== token && term.startsWith(token))
+          collect(term, 0.5);
+      }
+    }
+    const next = new Map;
+    for (const [doc, score] of matches) {
+      if (!scores || scores.has(doc))
+        next.set(doc, (scores?.get(doc) ?? 0) + score);
+    }
+    scores = next;
+  }
+  const wanted = query.trim().toLowerCase();
+  const results = [];
+  for (const [doc, total] of scores) {
+    const { name, type, description, deprecated } = index.documents[doc];
+    if (options.type && type !== options.type)
+      continue;
+    let score = total;
+    if (name === wanted)
+      score += 20;
+    else if (name.startsWith(wanted))
+      score += 5;
+    if (deprecated)
+      score /= 2;
+    results.push({ name, type, description, score });
+  }
+  results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return options.limit === undefined ? results : results.slice(0, options.limit);
+}
+function bestWeight(fields, mask) {
+  let best = 0;
+  for (const [bit, field] of fields.entries()) {
+    if (mask & 1 << bit)
+      best = Math.max(best, fieldWeights[field] ?? 0);
+  }
+  return best;
+}
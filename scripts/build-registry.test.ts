@@ -0,0 +1,244 @@
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
+import { mkdtemp, mkdir, writeFile, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildRegistry, buildRegistryIndex } from "./build-registry.js";
+import { searchIndexSchema } from "../src/schema.js";
+import { searchRegistry } from "../src/search.js";
+import type { RegistryItem } from "../src/schema.js";
+
+describe("buildRegistryIndex", () => {
+  it("orders items by type, then name, regardless of input order", () => {
+    const item = (name: string, type: RegistryItem["type"]): RegistryItem => ({
+      name,
+      type,
+      description: name,
+      files: [],
+      version: "1.0.0",
+    });
+    const index = buildRegistryIndex([item("b-tool", "kitn:tool"), item("z-agent", "kitn:agent"), item("a-tool", "kitn:tool")]);
+    expect(index.items.map((i) => i.name)).toEqual(["z-agent", "a-tool", "b-tool"]);
+  });
+});
+
+describe("buildRegistryIndex env vars", () => {
+  it("aggregates envVars across the dependency tree", () => {
+    const item = (name: string, extra: Partial<RegistryItem>): RegistryItem => ({
+      name,
+      type: "kitn:tool",
+      description: name,
+      files: [],
+      version: "1.0.0",
+      ...extra,
+    });
+    const index = buildRegistryIndex([
+      item("search-tool", { envVars: { API_KEY: { description: "Search key", secret: true } } }),
+      item("cache-tool", { envVars: { API_KEY: { description: "Cache key", required: true }, REDIS_URL: { description: "Redis" } } }),
+      item("research-agent", { type: "kitn:agent", registryDependencies: ["search-tool", "cache-tool"] }),
+      item("plain-tool", {}),
+    ]);
+
+    const agent = index.items.find((i) => i.name === "research-agent")!;
+    expect(agent.resolvedEnvVars).toEqual({
+      API_KEY: { description: "Search key", secret: true, required: true, components: ["search-tool", "cache-tool"] },
+      REDIS_URL: { description: "Redis", components: ["cache-tool"] },
+    });
+    expect(index.items.find((i) => i.name === "plain-tool")!.resolvedEnvVars).toBeUndefined();
+  });
+});
+
+describe("buildRegistryIndex lifecycle", () => {
+  it("keeps yanked versions listed but skips them for distTags", () => {
+    const item: RegistryItem = {
+      name: "old-tool",
+      type: "kitn:tool",
+      description: "Old",
+      files: [],
+      version: "1.2.0",
+      yanked: { "1.1.0": "Leaks API keys" },
+      deprecated: { message: "Superseded", replacement: "new-tool" },
+    };
+    const [entry] = buildRegistryIndex([item], new Map([["old-tool", ["1.2.0-beta.0", "1.1.0", "1.0.0"]]])).items;
+
+    expect(entry.versions).toEqual(["1.2.0-beta.0", "1.1.0", "1.0.0"]);
+    expect(entry.yanked).toEqual({ "1.1.0": "Leaks API keys" });
+    expect(entry.distTags).toEqual({ latest: "1.0.0", next: "1.2.0-beta.0" });
+    expect(entry.deprecated).toEqual({ message: "Superseded", replacement: "new-tool" });
+  });
+});
+
+describe("buildRegistry", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-build-"));
+    const dir = join(root, "components", "tools", "echo-tool");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "echo-tool.ts"), "export const echo = (s: string) => s;\n");
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name: "echo-tool",
+      type: "kitn:tool",
+      description: "Echo",
+      version: "1.0.0",
+      files: ["echo-tool.ts"],
+      changelog: [{ version: "1.0.0", date: "2025-01-01", type: "initial", note: "Initial release" }],
+    }));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("leaves unchanged items byte-for-byte identical on rebuild", async () => {
+    const first = await buildRegistry({ root });
+    expect(first.written).toEqual([
+      "tools/echo-tool.json",
+      "tools/echo-tool@1.0.0.json",
+      "registry.json",
+      "search-index.json",
+      "search.js",
+      "docs/echo-tool.html",
+      "docs/echo-tool@1.0.0.html",
+    ]);
+    const before = await readFile(join(root, "r", "tools", "echo-tool.json"), "utf-8");
+
+    // --force skips the cache, so this exercises content-hash change detection
+    const second = await buildRegistry({ root, force: true });
+    expect(second.written).toEqual([]);
+    expect(await readFile(join(root, "r", "tools", "echo-tool.json"), "utf-8")).toBe(before);
+  });
+
+  it("still checks published versions after a build that skipped them", async () => {
+    const sourcePath = join(root, "components", "tools", "echo-tool", "echo-tool.ts");
+    const original = await readFile(sourcePath, "utf-8");
+    await writeFile(sourcePath, "export const echo = (s: string) => s + s;\n");
+
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    const error = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      // What the dev server runs on every change
+      expect((await buildRegistry({ root, versioned: false })).immutabilityErrors).toBe(0);
+      expect((await buildRegistry({ root })).immutabilityErrors).toBe(1);
+    } finally {
+      await writeFile(sourcePath, original);
+      await buildRegistry({ root, versioned: false });
+      log.mockRestore();
+      error.mockRestore();
+    }
+  });
+
+  it("indexes exported identifiers for search", async () => {
+    const index = searchIndexSchema.parse(JSON.parse(await readFile(join(root, "r", "search-index.json"), "utf-8")));
+    expect(searchRegistry(index, "echo").map((r) => r.name)).toEqual(["echo-tool"]);
+    // Name (bit 0), the exported `echo` const (bit 3) and the description (bit 4)
+    expect(index.terms.echo).toEqual([[0, 0b11001]]);
+  });
+
+  it("rejects changelogs that disagree with the manifest or with r/", async () => {
+    const manifestPath = join(root, "components", "tools", "echo-tool", "manifest.json");
+    const original = await readFile(manifestPath, "utf-8");
+    await writeFile(manifestPath, JSON.stringify({
+      ...JSON.parse(original),
+      version: "1.1.0",
+      changelog: [{ version: "1.1.0", date: "2025-02-01", type: "breaking", note: "Renamed echo" }],
+    }));
+
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    try {
+      const result = await buildRegistry({ root });
+      expect(result.manifestProblems).toBe(1);
+      expect(result.written).toEqual([]);
+    } finally {
+      spy.mockRestore();
+      await writeFile(manifestPath, original);
+    }
+    expect(logged).toContain(
+      "\x1b[31m✗\x1b[0m components/tools/echo-tool/manifest.json: changelog — has no entry for published version 1.0.0",
+    );
+  });
+
+  it("writes a redirect stub for each earlier name", async () => {
+    const manifestPath = join(root, "components", "tools", "echo-tool", "manifest.json");
+    const original = await readFile(manifestPath, "utf-8");
+    await writeFile(manifestPath, JSON.stringify({ ...JSON.parse(original), renamedFrom: ["say-tool"] }));
+
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    try {
+      const result = await buildRegistry({ root });
+      expect(result.written).toEqual(["tools/echo-tool.json", "tools/say-tool.json", "registry.json", "docs/echo-tool.html"]);
+      expect(result.index!.items[0].renamedFrom).toEqual(["say-tool"]);
+    } finally {
+      log.mockRestore();
+      await writeFile(manifestPath, original);
+    }
+    expect(JSON.parse(await readFile(join(root, "r", "tools", "say-tool.json"), "utf-8"))).toEqual({
+      $schema: "https://kitn.dev/schema/registry-redirect.json",
+      name: "say-tool",
+      type: "kitn:tool",
+      redirect: "echo-tool",
+    });
+  });
+
+  it("only yanks published versions", async () => {
+    const manifestPath = join(root, "components", "tools", "echo-tool", "manifest.json");
+    const original = await readFile(manifestPath, "utf-8");
+    await writeFile(manifestPath, JSON.stringify({
+      ...JSON.parse(original),
+      version: "1.0.1",
+      yanked: { "1.0.0": "Echoes secrets", "0.9.0": "Never shipped" },
+      changelog: [
+        { version: "1.0.1", date: "2025-02-01", type: "fix", note: "Redact secrets" },
+        ...JSON.parse(original).changelog,
+      ],
+    }));
+
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    try {
+      const result = await buildRegistry({ root });
+      expect(result.manifestProblems).toBe(1);
+    } finally {
+      spy.mockRestore();
+      await writeFile(manifestPath, original);
+    }
+    expect(logged).toContain(
+      "\x1b[31m✗\x1b[0m components/tools/echo-tool/manifest.json: yanked.0.9.0 — echo-tool@0.9.0 is not published",
+    );
+  });
+
+  it("records where dependencies from other registries resolved", async () => {
+    const manifestPath = join(root, "components", "tools", "echo-tool", "manifest.json");
+    const original = await readFile(manifestPath, "utf-8");
+    await writeFile(manifestPath, JSON.stringify({ ...JSON.parse(original), registryDependencies: ["@acme/geo-tool@^1"] }));
+    await writeFile(join(root, "registry.config.json"), JSON.stringify({
+      registries: { "@acme": { url: "https://acme.example.com/r", snapshot: "acme.json" } },
+    }));
+    await writeFile(join(root, "acme.json"), JSON.stringify({
+      version: "1.0.0",
+      items: [{ name: "geo-tool", type: "kitn:tool", description: "Geocoding", version: "2.0.0", versions: ["2.0.0", "1.2.0"] }],
+    }));
+
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    let result;
+    try {
+      result = await buildRegistry({ root });
+    } finally {
+      log.mockRestore();
+      await writeFile(manifestPath, original);
+      await rm(join(root, "registry.config.json"));
+    }
+    expect(result.written).toEqual(["tools/echo-tool.json", "registry.json", "docs/echo-tool.html"]);
+    expect(result.items[0].externalDependencies).toEqual({
+      "@acme/geo-tool@^1": {
+        registry: "https://acme.example.com/r",
+        name: "geo-tool",
+        type: "kitn:tool",
+        version: "1.2.0",
+        url: "https://acme.example.com/r/tools/geo-tool@1.2.0.json",
+      },
+    });
+    // Only components in this registry are part of the install tree
+    expect(result.index!.items[0].resolvedDependencies).toBeUndefined();
+  });
+});
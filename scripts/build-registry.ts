@@ -1,43 +1,46 @@
-import { registryItemSchema } from "../src/schema.js";
-import type { RegistryItem, RegistryIndex, ComponentType, ChangelogEntry } from "../src/schema.js";
-
-interface ComponentManifest {
-  name: string;
-  type: ComponentType;
-  description: string;
-  dependencies?: string[];
-  devDependencies?: string[];
-  registryDependencies?: string[];
-  envVars?: Record<string, { description: string; required?: boolean; secret?: boolean; url?: string }>;
-  files?: string[];
-  installDir?: string;
-  tsconfig?: Record<string, string[]>;
-  slot?: string;
-  docs?: string;
-  categories?: string[];
-  version?: string;
-  changelog?: ChangelogEntry[];
-}
-
-const typeToDir: Record<ComponentType, string> = {
-  "kitn:agent": "agents",
-  "kitn:tool": "tools",
-  "kitn:skill": "skills",
-  "kitn:storage": "storage",
-  "kitn:package": "package",
-  "kitn:cron": "crons",
-};
+import { readdir, readFile, writeFile, mkdir, stat } from "fs/promises";
+import { join, dirname, relative } from "path";
+import { createHash } from "crypto";
+import { execFileSync } from "child_process";
+import { registryItemSchema, skillMetadataSchema } from "../src/schema.js";
+import { lintChangelog } from "../src/changelog.js";
+import { diffItemFiles, diffRegistryItems, formatFileChange } from "../src/diff.js";
+import { computeIntegrity, computeItemIntegrity } from "../src/integrity.js";
+import { resolveDependencyClosure } from "../src/resolve.js";
+import { buildSearchIndex, type SearchDocument } from "../src/search.js";
+import { docsPageFile, renderDocsPage, type DocsPageContext } from "../src/docs-page.js";
+import { compareVersions, computeDistTags, isValidVersion, sortVersionsDescending } from "../src/semver.js";
+import { parseFrontmatter } from "../src/frontmatter.js";
+import { findSkillFile } from "../src/skill.js";
+import {
+  typeToDir,
+  componentTypeDirs,
+  loadComponents,
+  printProblems,
+  type LoadedComponent,
+  type ManifestProblem,
+} from "./load-components.js";
+import { loadExternalRegistries, resolveExternalDependencies } from "./external-registries.js";
+import { scanExports } from "./source-analysis.js";
+import type { ExternalDependency, RegistryItem, RegistryIndex, RegistryRedirect, Manifest, SkillMetadata } from "../src/schema.js";
 
+// `fileContents` maps each resolved file (globs already expanded, nested
+// paths kept) to its content, in the order the files should be published.
+// `externalDependencies` is where each namespaced registryDependency resolved.
 export function buildRegistryItem(
-  manifest: ComponentManifest,
-  fileContents: Record<string, string>
+  manifest: Manifest,
+  fileContents: Record<string, string>,
+  externalDependencies?: Record<string, ExternalDependency>,
 ): RegistryItem {
   const dir = typeToDir[manifest.type];
-  const files = manifest.files!.map((fileName) => ({
-    path: `${dir}/${fileName}`,
-    content: fileContents[fileName] ?? "",
-    type: manifest.type,
-  }));
+  const files = Object.entries(fileContents).map(([fileName, content]) => {
+    return {
+      path: `${dir}/${fileName}`,
+      content,
+      type: manifest.type,
+      integrity: computeIntegrity(content),
+    };
+  });
 
   return registryItemSchema.parse({
     $schema: "https://kitn.dev/schema/registry-item.json",
@@ -47,121 +50,527 @@ export function buildRegistryItem(
     dependencies: manifest.dependencies,
     devDependencies: manifest.devDependencies,
     registryDependencies: manifest.registryDependencies,
+    externalDependencies,
     envVars: manifest.envVars,
     files,
     docs: manifest.docs,
     categories: manifest.categories,
     slot: manifest.slot,
-    version: manifest.version ?? "1.0.0",
+    version: manifest.version,
     installDir: manifest.installDir,
     tsconfig: manifest.tsconfig,
+    skill: manifest.type === "kitn:skill" ? skillMetadata(fileContents) : undefined,
     updatedAt: new Date().toISOString(),
     changelog: manifest.changelog,
+    deprecated: manifest.deprecated,
+    yanked: manifest.yanked,
+    renamedFrom: manifest.renamedFrom,
+    integrity: computeItemIntegrity(files),
   });
 }
 
+// Frontmatter of a skill's markdown file. The loader has already rejected
+// skills whose frontmatter is missing or invalid.
+function skillMetadata(fileContents: Record<string, string>): SkillMetadata | undefined {
+  const skillFile = findSkillFile(Object.keys(fileContents));
+  if (!skillFile) return undefined;
+  const parsed = skillMetadataSchema.safeParse(parseFrontmatter(fileContents[skillFile]).frontmatter);
+  return parsed.success ? parsed.data : undefined;
+}
+
 export function buildRegistryIndex(
   items: RegistryItem[],
   existingVersions: Map<string, string[]> = new Map()
 ): RegistryIndex {
+  // Stable order regardless of how items were collected: by type, then name
+  const typeRank = (item: RegistryItem) => componentTypeDirs.indexOf(typeToDir[item.type]);
+  const sorted = [...items].sort((a, b) => typeRank(a) - typeRank(b) || a.name.localeCompare(b.name));
+
   return {
     $schema: "https://kitn.dev/schema/registry.json",
     version: "1.0.0",
-    items: items.map(({ name, type, description, registryDependencies, categories, slot, version, updatedAt }) => ({
-      name,
-      type,
-      description,
-      registryDependencies,
-      categories,
-      slot,
-      version,
-      versions: existingVersions.get(name) ?? [version ?? "1.0.0"],
-      updatedAt,
-    })),
+    items: sorted.map((item) => {
+      const { name, type, description, registryDependencies, categories, slot, version, updatedAt, integrity } = item;
+      const versions = existingVersions.get(name) ?? [version ?? "1.0.0"];
+      // Yanked versions stay listed, but are never picked as a dist-tag
+      const yanked = item.yanked && Object.keys(item.yanked).length > 0 ? item.yanked : undefined;
+      // Dependencies from other registries aren't in `items`, so the closure skips them
+      const closure = registryDependencies?.length ? resolveDependencyClosure({ items }, name) : [];
+      const resolvedDependencies = closure.length > 0 ? closure : undefined;
+      return {
+        name,
+        type,
+        description,
+        registryDependencies,
+        resolvedDependencies,
+        resolvedEnvVars: collectEnvVars(items, [...(resolvedDependencies ?? []), name]),
+        categories,
+        slot,
+        version,
+        versions,
+        yanked,
+        distTags: computeDistTags(versions.filter((v) => !yanked || !(v in yanked))),
+        deprecated: item.deprecated,
+        renamedFrom: item.renamedFrom,
+        updatedAt,
+        integrity,
+      };
+    }),
   };
 }
 
-// CLI entry point — run with `bun run scripts/build-registry.ts`
-if (import.meta.main) {
-  const { readdir, readFile, writeFile, mkdir, access } = await import("fs/promises");
-  const { join } = await import("path");
+// Merge the envVars declared across a dependency tree. A variable is required
+// or secret if any component says so; description and url come from the
+// first component (in install order) that declares the variable.
+function collectEnvVars(
+  items: RegistryItem[],
+  names: string[],
+): RegistryIndex["items"][number]["resolvedEnvVars"] {
+  const byName = new Map(items.map((item) => [item.name, item]));
+  const merged: NonNullable<RegistryIndex["items"][number]["resolvedEnvVars"]> = {};
+
+  for (const name of names) {
+    for (const [variable, envVar] of Object.entries(byName.get(name)?.envVars ?? {})) {
+      const existing = merged[variable];
+      if (!existing) {
+        merged[variable] = { ...envVar, components: [name] };
+        continue;
+      }
+      existing.components.push(name);
+      if (envVar.required) existing.required = true;
+      if (envVar.secret) existing.secret = true;
+      existing.url ??= envVar.url;
+    }
+  }
+  return Object.keys(merged).length > 0 ? merged : undefined;
+}
+
+export interface BuildOptions {
+  /** Repo root — defaults to the directory above scripts/ */
+  root?: string;
+  /** Overwrite published versions whose files changed */
+  allowRepublish?: boolean;
+  /** Where updatedAt comes from for changed items: the clock, or the component's last git commit */
+  timestamps?: "now" | "git";
+  /** Ignore the build cache and rebuild every component */
+  force?: boolean;
+  /** Check and write immutable name@version.json artifacts (default true; the dev server turns this off) */
+  versioned?: boolean;
+  /** With each new version, also write name@<previous>..<version>.diff.json */
+  diffs?: boolean;
+  /** Write static HTML pages to r/docs/ (default true) */
+  docs?: boolean;
+}
+
+export interface BuildResult {
+  items: RegistryItem[];
+  /** Undefined when the build failed and the index was not written */
+  index?: RegistryIndex;
+  /** Files (relative to r/) whose bytes changed */
+  written: string[];
+  manifestProblems: number;
+  immutabilityErrors: number;
+}
+
+// Bump when the shape of built items changes so stale cache entries are ignored
+const CACHE_VERSION = 3;
+
+interface BuildCache {
+  version: number;
+  /** Component name → fingerprint of its inputs and the integrity it built to */
+  components: Record<string, { inputs: string; integrity?: string }>;
+}
 
-  const ROOT = new URL("..", import.meta.url).pathname;
-  const COMPONENTS_DIR = join(ROOT, "components");
-  const OUTPUT_DIR = join(ROOT, "r");
+export async function buildRegistry(options: BuildOptions = {}): Promise<BuildResult> {
+  const root = options.root ?? new URL("..", import.meta.url).pathname;
+  const outputDir = join(root, "r");
+  const cachePath = join(root, ".cache", "build-registry.json");
 
+  const cache = await readCache(cachePath);
+  const nextCache: BuildCache = { version: CACHE_VERSION, components: {} };
   const allItems: RegistryItem[] = [];
   const existingVersions = new Map<string, string[]>();
+  const written: string[] = [];
+  let immutabilityErrors = 0;
 
-  for (const typeDir of ["agents", "tools", "skills", "storage", "package", "crons"]) {
-    const dir = join(COMPONENTS_DIR, typeDir);
-    let entries: string[];
-    try {
-      entries = await readdir(dir);
-    } catch {
+  const loaded = await loadComponents(root);
+  const { components } = loaded;
+  const externals = await loadExternalRegistries(root);
+  const external = resolveExternalDependencies(root, components, externals.registries);
+  const problems = loaded.problems.length > 0 || externals.problems.length > 0
+    ? [...loaded.problems, ...externals.problems]
+    : [...(await lintChangelogs(root, components)), ...(await lintYanked(root, components)), ...external.problems];
+  if (problems.length > 0) {
+    printProblems(problems);
+    return { items: [], written: [], manifestProblems: problems.length, immutabilityErrors: 0 };
+  }
+
+  for (const component of components) {
+    const { manifest, typeDir, dir: componentDir, files } = component;
+    const outDir = join(outputDir, typeDir);
+    await mkdir(outDir, { recursive: true });
+
+    const latestFile = `${typeDir}/${manifest.name}.json`;
+    const latestRaw = await readIfExists(join(outDir, `${manifest.name}.json`));
+    const previous = latestRaw ? registryItemSchema.parse(JSON.parse(latestRaw)) : undefined;
+
+    // Untouched since the last build — reuse the item already in r/
+    const externalDependencies = external.resolved.get(manifest.name);
+    const inputs = await fingerprintInputs(component, externalDependencies);
+    const cached = cache.components[manifest.name];
+    if (!options.force && previous && cached?.inputs === inputs && cached.integrity === previous.integrity) {
+      allItems.push(previous);
+      nextCache.components[manifest.name] = cached;
+      existingVersions.set(manifest.name, await scanVersions(outDir, manifest.name));
       continue;
     }
 
-    for (const entry of entries) {
-      const componentDir = join(dir, entry);
-      const manifestPath = join(componentDir, "manifest.json");
+    // Read source files
+    const fileContents: Record<string, string> = {};
+    for (const fileName of files) {
+      fileContents[fileName] = await readFile(join(componentDir, fileName), "utf-8");
+    }
+
+    const item = buildRegistryItem(manifest, fileContents, externalDependencies);
+
+    // A published version must always ship the same files — compare against
+    // the existing versioned artifact before touching anything
+    const version = manifest.version;
+    const versionedFile = `${typeDir}/${manifest.name}@${version}.json`;
+    const versionedPath = join(outDir, `${manifest.name}@${version}.json`);
+    const checkVersioned = options.versioned ?? true;
+    const publishedRaw = checkVersioned ? await readIfExists(versionedPath) : undefined;
+    const published = publishedRaw ? registryItemSchema.parse(JSON.parse(publishedRaw)) : undefined;
+
+    let writeVersioned = checkVersioned && !published;
+    if (published) {
+      const changes = diffItemFiles(published, item);
+      item.republished = published.republished;
 
-      let manifestRaw: string;
-      try {
-        manifestRaw = await readFile(manifestPath, "utf-8");
-      } catch {
-        console.warn(`Skipping ${componentDir}: no manifest.json`);
+      if (changes.length > 0 && !options.allowRepublish) {
+        immutabilityErrors++;
+        console.error(`✗ ${versionedFile} is already published but its files changed:`);
+        for (const change of changes) console.error(`    ${formatFileChange(change)}`);
+        console.error(`  hint: bump the version (bun run bump ${manifest.name}), or rebuild with --allow-republish to overwrite it`);
         continue;
       }
 
-      const manifest: ComponentManifest = JSON.parse(manifestRaw);
-
-      // Read source files
-      const fileContents: Record<string, string> = {};
-      for (const fileName of manifest.files!) {
-        fileContents[fileName] = await readFile(join(componentDir, fileName), "utf-8");
+      if (changes.length > 0) {
+        item.republished = [
+          ...(published.republished ?? []),
+          { date: new Date().toISOString(), previousIntegrity: published.integrity },
+        ];
+        writeVersioned = true;
+        console.warn(`! Republishing ${versionedFile} — ${changes.length} file(s) changed:`);
+        for (const change of changes) console.warn(`    ${formatFileChange(change)}`);
       }
+    }
+
+    // Only a real change moves updatedAt — otherwise keep the previous bytes
+    item.updatedAt = previous && sameContent(previous, item)
+      ? previous.updatedAt
+      : await timestampFor(componentDir, options.timestamps ?? "now");
 
-      const item = buildRegistryItem(manifest, fileContents);
-      allItems.push(item);
-
-      // Write individual item JSON
-      const outDir = join(OUTPUT_DIR, typeDir);
-      await mkdir(outDir, { recursive: true });
-
-      // Write latest (always overwritten)
-      await writeFile(
-        join(outDir, `${manifest.name}.json`),
-        JSON.stringify(item, null, 2) + "\n"
-      );
-      console.log(`✓ Built ${typeDir}/${manifest.name}.json`);
-
-      // Write versioned file (immutable — skip if already exists)
-      const version = manifest.version ?? "1.0.0";
-      const versionedPath = join(outDir, `${manifest.name}@${version}.json`);
-      try {
-        await access(versionedPath);
-        // Already exists, skip
-      } catch {
-        await writeFile(versionedPath, JSON.stringify(item, null, 2) + "\n");
-        console.log(`  + ${typeDir}/${manifest.name}@${version}.json (versioned)`);
+    allItems.push(item);
+    nextCache.components[manifest.name] = { inputs, integrity: item.integrity };
+
+    // Write latest
+    const serialized = JSON.stringify(item, null, 2) + "\n";
+    if (serialized !== latestRaw) {
+      await writeFile(join(outDir, `${manifest.name}.json`), serialized);
+      written.push(latestFile);
+      console.log(`✓ Built ${latestFile}`);
+    }
+
+    // Write versioned file (immutable unless republishing)
+    if (writeVersioned) {
+      await writeFile(versionedPath, serialized);
+      written.push(versionedFile);
+      console.log(`  + ${versionedFile} (${published ? "republished" : "versioned"})`);
+
+      // What changed since the previous version, for consumers upgrading
+      const previousVersion = options.diffs && !published
+        ? (await scanVersions(outDir, manifest.name)).find((v) => compareVersions(v, version) < 0)
+        : undefined;
+      if (previousVersion) {
+        const fromRaw = await readFile(join(outDir, `${manifest.name}@${previousVersion}.json`), "utf-8");
+        const diff = diffRegistryItems(registryItemSchema.parse(JSON.parse(fromRaw)), item);
+        const diffFile = `${typeDir}/${manifest.name}@${previousVersion}..${version}.diff.json`;
+        await writeFile(join(outputDir, diffFile), JSON.stringify(diff, null, 2) + "\n");
+        written.push(diffFile);
+        console.log(`  + ${diffFile}`);
       }
+    }
+
+    existingVersions.set(manifest.name, await scanVersions(outDir, manifest.name));
+  }
 
-      // Collect available versions by scanning existing @version files
-      const dirEntries = await readdir(outDir);
-      const versions: string[] = [];
-      const versionPattern = new RegExp(`^${manifest.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}@(.+)\\.json$`);
-      for (const f of dirEntries) {
-        const match = f.match(versionPattern);
-        if (match) versions.push(match[1]);
+  if (immutabilityErrors > 0) {
+    return { items: allItems, written, manifestProblems: 0, immutabilityErrors };
+  }
+
+  // Old names of renamed components point clients at the new name
+  for (const { manifest, typeDir } of components) {
+    for (const oldName of manifest.renamedFrom ?? []) {
+      const redirect: RegistryRedirect = {
+        $schema: "https://kitn.dev/schema/registry-redirect.json",
+        name: oldName,
+        type: manifest.type,
+        redirect: manifest.name,
+      };
+      const redirectFile = `${typeDir}/${oldName}.json`;
+      const serialized = JSON.stringify(redirect, null, 2) + "\n";
+      if (serialized !== (await readIfExists(join(outputDir, redirectFile)))) {
+        await writeFile(join(outputDir, redirectFile), serialized);
+        written.push(redirectFile);
+        console.log(`✓ Redirect ${redirectFile} → ${manifest.name}`);
       }
-      versions.sort((a, b) => b.localeCompare(a, undefined, { numeric: true }));
-      existingVersions.set(manifest.name, versions);
     }
   }
 
   // Write registry index
   const index = buildRegistryIndex(allItems, existingVersions);
-  await writeFile(join(OUTPUT_DIR, "registry.json"), JSON.stringify(index, null, 2) + "\n");
-  console.log(`\n✓ Registry index: ${allItems.length} components`);
+  const indexPath = join(outputDir, "registry.json");
+  const indexSerialized = JSON.stringify(index, null, 2) + "\n";
+  if (indexSerialized !== (await readIfExists(indexPath))) {
+    await writeFile(indexPath, indexSerialized);
+    written.push("registry.json");
+  }
+
+  // Search index, and the query module index.html loads to read it
+  const byName = new Map(allItems.map((item) => [item.name, item]));
+  const searchIndex = buildSearchIndex(index.items.map(({ name }) => searchDocument(byName.get(name)!)));
+  const outputs: Array<[string, string]> = [
+    ["search-index.json", JSON.stringify(searchIndex) + "\n"],
+    ["search.js", await searchModuleSource()],
+  ];
+  if (options.docs ?? true) {
+    await mkdir(join(outputDir, "docs"), { recursive: true });
+    outputs.push(...(await docsPages(outputDir, byName, index)));
+  }
+  for (const [file, content] of outputs) {
+    if (content !== (await readIfExists(join(outputDir, file)))) {
+      await writeFile(join(outputDir, file), content);
+      written.push(file);
+    }
+  }
+
+  // Without the versioned check, the cache can't vouch that published
+  // versions still match — leave it for the next full build to refresh
+  if (options.versioned ?? true) {
+    await mkdir(dirname(cachePath), { recursive: true });
+    await writeFile(cachePath, JSON.stringify(nextCache, null, 2) + "\n");
+  }
+
+  return { items: allItems, index, written, manifestProblems: 0, immutabilityErrors };
+}
+
+// What the search index knows about an item. Exports come from its
+// TypeScript files; markdown and other files are skipped.
+function searchDocument(item: RegistryItem): SearchDocument {
+  return {
+    name: item.name,
+    type: item.type,
+    description: item.description,
+    categories: item.categories,
+    skill: item.skill,
+    exports: item.files.filter((f) => /\.tsx?$/.test(f.path)).flatMap((f) => scanExports(f.content, f.path)),
+    deprecated: item.deprecated !== undefined,
+  };
+}
+
+// A page per component in r/docs/, plus one per version published in r/.
+// Every page shows the latest deprecation and yanked versions.
+async function docsPages(
+  outputDir: string,
+  items: Map<string, RegistryItem>,
+  index: RegistryIndex,
+): Promise<Array<[string, string]>> {
+  const pages: Array<[string, string]> = [];
+  for (const entry of index.items) {
+    const item = items.get(entry.name)!;
+    const typeDir = typeToDir[item.type];
+    const context: DocsPageContext = {
+      typeDir,
+      versions: entry.versions ?? [],
+      dependents: index.items.filter((other) => other.registryDependencies?.includes(item.name)).map((other) => other.name),
+      deprecated: item.deprecated,
+      yanked: entry.yanked,
+    };
+    pages.push([`docs/${docsPageFile(item.name)}`, renderDocsPage(item, context)]);
+
+    for (const version of context.versions) {
+      const raw = await readIfExists(join(outputDir, typeDir, `${item.name}@${version}.json`));
+      if (!raw) continue;
+      const published = registryItemSchema.parse(JSON.parse(raw));
+      pages.push([`docs/${docsPageFile(item.name, version)}`, renderDocsPage(published, { ...context, pinned: true })]);
+    }
+  }
+  return pages;
+}
+
+// src/search.ts with its types stripped, for browsers
+async function searchModuleSource(): Promise<string> {
+  const source = await readFile(new URL("../src/search.ts", import.meta.url), "utf-8");
+  const js = new Bun.Transpiler({ loader: "ts" }).transformSync(source);
+  return `// Generated from src/search.ts by bun run build — do not edit\n${js}`;
+}
+
+// Changelog problems for every component, checked against the versions
+// already published in r/. Used by build, and by bump before it writes.
+export async function lintChangelogs(
+  root: string,
+  components: Array<Pick<LoadedComponent, "manifest" | "typeDir" | "manifestPath">>,
+): Promise<ManifestProblem[]> {
+  const problems: ManifestProblem[] = [];
+  for (const { manifest, typeDir, manifestPath } of components) {
+    const published = await scanVersions(join(root, "r", typeDir), manifest.name);
+    for (const problem of lintChangelog(manifest.version, manifest.changelog, published)) {
+      problems.push({ file: relative(root, manifestPath), ...problem });
+    }
+  }
+  return problems;
+}
+
+// Every yanked version must already be published — yanking flags a file
+// in r/, it doesn't delete one
+export async function lintYanked(
+  root: string,
+  components: Array<Pick<LoadedComponent, "manifest" | "typeDir" | "manifestPath">>,
+): Promise<ManifestProblem[]> {
+  const problems: ManifestProblem[] = [];
+  for (const { manifest, typeDir, manifestPath } of components) {
+    if (!manifest.yanked) continue;
+    const published = await scanVersions(join(root, "r", typeDir), manifest.name);
+    for (const version of Object.keys(manifest.yanked)) {
+      if (published.includes(version)) continue;
+      problems.push({ file: relative(root, manifestPath), field: `yanked.${version}`, message: `${manifest.name}@${version} is not published` });
+    }
+  }
+  return problems;
+}
+
+// Collect available versions by scanning existing @version files
+async function scanVersions(outDir: string, name: string): Promise<string[]> {
+  const versions: string[] = [];
+  const versionPattern = new RegExp(`^${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}@(.+)\\.json$`);
+  let entries: string[];
+  try {
+    entries = await readdir(outDir);
+  } catch {
+    // Nothing built for this type yet
+    return versions;
+  }
+  for (const f of entries) {
+    const match = f.match(versionPattern);
+    if (match && isValidVersion(match[1])) versions.push(match[1]);
+  }
+  return sortVersionsDescending(versions);
+}
+
+// Everything except updatedAt — the item is "unchanged" when this matches
+function sameContent(a: RegistryItem, b: RegistryItem): boolean {
+  return JSON.stringify({ ...a, updatedAt: undefined }) === JSON.stringify({ ...b, updatedAt: undefined });
+}
+
+// Cheap fingerprint of a component's inputs: manifest and source file sizes and mtimes
+// A re-synced snapshot can resolve the same range to a new version, so
+// resolved external dependencies count as inputs too
+async function fingerprintInputs(
+  { manifestPath, dir, files }: LoadedComponent,
+  externalDependencies: Record<string, ExternalDependency> = {},
+): Promise<string> {
+  const paths = [manifestPath, ...files.map((f) => join(dir, f))];
+  const stats = await Promise.all(paths.map(async (p) => {
+    const { size, mtimeMs } = await stat(p);
+    return [p, size, mtimeMs];
+  }));
+  return createHash("sha256").update(JSON.stringify([stats, externalDependencies])).digest("hex");
+}
+
+async function timestampFor(componentDir: string, source: "now" | "git"): Promise<string> {
+  if (source === "git") {
+    try {
+      const dirty = execFileSync("git", ["status", "--porcelain", "--", componentDir], { cwd: componentDir, encoding: "utf-8" });
+      const committed = execFileSync("git", ["log", "-1", "--format=%cI", "--", componentDir], { cwd: componentDir, encoding: "utf-8" }).trim();
+      // Uncommitted edits have no commit time yet — fall through to the clock
+      if (!dirty.trim() && committed) return new Date(committed).toISOString();
+    } catch {
+      // Not a git checkout
+    }
+  }
+  return new Date().toISOString();
+}
+
+async function readCache(cachePath: string): Promise<BuildCache> {
+  const raw = await readIfExists(cachePath);
+  if (raw) {
+    try {
+      const cache = JSON.parse(raw) as BuildCache;
+      if (cache.version === CACHE_VERSION) return cache;
+    } catch {
+      // Corrupt cache — rebuild everything
+    }
+  }
+  return { version: CACHE_VERSION, components: {} };
+}
+
+async function readIfExists(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw err;
+  }
+}
+
+// CLI entry point — run with `bun run scripts/build-registry.ts`
+if (import.meta.main) {
+  const { parseArgs } = await import("util");
+
+  const { values: flags } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      "allow-republish": { type: "boolean", default: false },
+      timestamps: { type: "string", default: "now" },
+      force: { type: "boolean", default: false },
+      diffs: { type: "boolean", default: false },
+      "no-docs": { type: "boolean", default: false },
+    },
+  });
+
+  if (flags.timestamps !== "now" && flags.timestamps !== "git") {
+    console.error(`✗ --timestamps must be "now" or "git"`);
+    process.exit(1);
+  }
+
+  const root = new URL("..", import.meta.url).pathname;
+  const outputDir = join(root, "r");
+  const result = await buildRegistry({
+    root,
+    allowRepublish: flags["allow-republish"],
+    timestamps: flags.timestamps,
+    force: flags.force,
+    diffs: flags.diffs,
+    docs: !flags["no-docs"],
+  });
+
+  if (result.manifestProblems > 0) process.exit(1);
+  if (result.immutabilityErrors > 0) {
+    console.error(`\n✗ ${result.immutabilityErrors} published version(s) would change — registry index not written`);
+    process.exit(1);
+  }
+
+  const unchanged = result.written.length === 0 ? " (no changes)" : "";
+  console.log(`\n✓ Registry index: ${result.items.length} components${unchanged}`);
+
+  // Sign everything in r/ when a key is configured
+  const { resolveSigningKey, signRegistry } = await import("./sign-registry.js");
+  const signingKey = await resolveSigningKey();
+  if (signingKey) {
+    const signed = await signRegistry(outputDir, signingKey);
+    console.log(`✓ Signed ${Object.keys(signed.signatures).length} files (key ${signed.publicKey})`);
+  } else {
+    console.log(`  (unsigned — no signing key configured, see scripts/sign-registry.ts)`);
+  }
 }
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cascadeBumps, manifestDiff, parsePlan, planBumps, writeBumps } from "./bump-version.js";
+import type { Manifest } from "../src/schema.js";
+
+describe("parsePlan", () => {
+  it("reads JSON and YAML plans", () => {
+    const yaml = "- name: weather-tool\n  type: minor\n  note: Adds units\n";
+    const json = `[{ "name": "weather-tool", "type": "minor", "note": "Adds units" }]`;
+    for (const source of [yaml, json]) {
+      expect(parsePlan(source)).toEqual({ requests: [{ name: "weather-tool", type: "minor", note: "Adds units" }], problems: [] });
+    }
+  });
+
+  it("locates problems in the plan", () => {
+    expect(parsePlan(`[{ "name": "a", "type": "huge", "note": " ", "extra": 1 }]`).problems).toEqual([
+      expect.stringMatching(/^plan\[0\]\.type — Invalid enum value/),
+      "plan[0].note — must not be empty",
+      "plan[0] — Unrecognized key(s) in object: 'extra'",
+    ]);
+    expect(parsePlan("[]").problems).toEqual(["plan — must list at least one bump"]);
+  });
+});
+
+describe("planBumps", () => {
+  let root: string;
+
+  async function addTool(name: string, version: string) {
+    const dir = join(root, "components", "tools", name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.ts`), "");
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      type: "kitn:tool",
+      description: name,
+      version,
+      files: [`${name}.ts`],
+      changelog: [{ version, date: "2025-01-01", type: "initial", note: "Initial release" }],
+    }, null, 2) + "\n");
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-bump-"));
+    await addTool("alpha-tool", "1.0.0");
+    await addTool("beta-tool", "0.3.1");
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("bumps several components and writes nothing until asked", async () => {
+    const { bumps, problems } = await planBumps([
+      { name: "alpha-tool", type: "major", note: "Renames options" },
+      { name: "beta-tool", type: "patch", change: "fix", note: "Fixes a typo" },
+    ], { root, date: "2025-06-01" });
+
+    expect(problems).toEqual([]);
+    expect(bumps.map(({ name, from, to }) => [name, from, to])).toEqual([["alpha-tool", "1.0.0", "2.0.0"], ["beta-tool", "0.3.1", "0.3.2"]]);
+    const alphaPath = join(root, "components", "tools", "alpha-tool", "manifest.json");
+    expect(await readFile(alphaPath, "utf-8")).toBe(bumps[0].before);
+
+    await writeBumps(bumps);
+    const alpha = JSON.parse(await readFile(alphaPath, "utf-8"));
+    expect(alpha.version).toBe("2.0.0");
+    expect(alpha.changelog[0]).toEqual({ version: "2.0.0", date: "2025-06-01", type: "breaking", note: "Renames options" });
+  });
+
+  it("rejects unknown components, duplicates and inconsistent changelogs", async () => {
+    const { bumps, problems } = await planBumps([
+      { name: "gamma-tool", type: "patch", note: "x" },
+      { name: "beta-tool", type: "patch", change: "breaking", note: "x" },
+      { name: "beta-tool", type: "minor", note: "y" },
+    ], { root, date: "2025-06-01" });
+
+    expect(bumps).toEqual([]);
+    expect(problems).toEqual([
+      "gamma-tool: no such component",
+      "beta-tool: listed more than once",
+      "components/tools/beta-tool/manifest.json: changelog[0].type — breaking change in 0.3.3 needs a major bump from 0.3.2",
+    ]);
+  });
+});
+
+describe("manifestDiff", () => {
+  it("shows changed lines with a line of context", () => {
+    const before = ["{", `  "name": "a",`, `  "version": "1.0.0",`, `  "files": []`, "}"].join("\n");
+    const after = ["{", `  "name": "a",`, `  "version": "1.1.0",`, `  "files": []`, "}"].join("\n");
+    expect(manifestDiff(before, after)).toEqual([
+      `    "name": "a",`,
+      `-   "version": "1.0.0",`,
+      `+   "version": "1.1.0",`,
+      `    "files": []`,
+    ]);
+  });
+});
+
+describe("cascadeBumps", () => {
+  const manifest = (name: string, version: string, registryDependencies?: string[]): Manifest =>
+    ({ name, type: "kitn:agent", description: name, version, files: [`${name}.ts`], registryDependencies });
+  const manifests = [
+    manifest("search-tool", "1.2.0"),
+    manifest("weather-tool", "0.4.0"),
+    manifest("travel-agent", "2.0.0", ["weather-tool", "search-tool"]),
+    manifest("trip-planner", "1.0.0", ["travel-agent"]),
+    manifest("news-agent", "1.0.0", ["search-tool"]),
+  ];
+
+  it("patches every transitive dependent, noting the new dependency versions", () => {
+    expect(cascadeBumps(manifests, [{ name: "weather-tool", type: "major", note: "Renames options" }])).toEqual([
+      { name: "travel-agent", type: "patch", change: "fix", note: "Updated dependency weather-tool to 1.0.0" },
+      { name: "trip-planner", type: "patch", change: "fix", note: "Updated dependency travel-agent to 2.0.1" },
+    ]);
+  });
+
+  it("matches the highest dependency release type and leaves requested bumps alone", () => {
+    const requests = [
+      { name: "weather-tool", type: "patch" as const, note: "Fix" },
+      { name: "search-tool", type: "minor" as const, note: "Feature" },
+      { name: "trip-planner", type: "major" as const, note: "Own bump" },
+    ];
+    expect(cascadeBumps(manifests, requests, "match")).toEqual([
+      { name: "news-agent", type: "minor", change: "feature", note: "Updated dependency search-tool to 1.3.0" },
+      {
+        name: "travel-agent",
+        type: "minor",
+        change: "feature",
+        note: "Updated dependency weather-tool to 0.4.1\nUpdated dependency search-tool to 1.3.0",
+      },
+    ]);
+  });
+
+  it("cascades through a dependency cycle in match mode", () => {
+    const cyclic = [
+      manifest("search-tool", "1.2.0"),
+      manifest("news-agent", "1.0.0", ["travel-agent"]),
+      manifest("travel-agent", "2.0.0", ["search-tool", "news-agent"]),
+    ];
+    expect(cascadeBumps(cyclic, [{ name: "search-tool", type: "minor", note: "Feature" }], "match")).toEqual([
+      { name: "travel-agent", type: "minor", change: "feature", note: "Updated dependency search-tool to 1.3.0" },
+      { name: "news-agent", type: "minor", change: "feature", note: "Updated dependency travel-agent to 2.1.0" },
+    ]);
+  });
+});
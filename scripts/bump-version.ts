@@ -1,230 +1,437 @@
+/**
+ * Bumps component versions and records a changelog entry for each.
+ *
+ *   bun run bump                                   # interactive
+ *   bun run bump weather-tool --type minor --note "Adds units"
+ *   bun run bump --plan bumps.yaml --dry-run       # several at once
+ *
+ * Anything not given as a flag is prompted for when stdin is a terminal;
+ * otherwise it is an error. Exit codes, for scripts and CI:
+ *
+ *   0  bumped (or, with --dry-run, would bump)
+ *   1  nothing written — bad flags, plan, component or changelog
+ *   2  manifests written, but the registry rebuild failed
+ */
+
 import * as p from "@clack/prompts";
 import pc from "picocolors";
-
-interface ChangelogEntry {
-  version: string;
-  date: string;
-  type: string;
-  note: string;
-}
-
-interface ComponentManifest {
+import { readFile, writeFile } from "fs/promises";
+import { relative } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { diffLines } from "../src/diff.js";
+import { findDependents } from "../src/resolve.js";
+import { incrementVersion, isPrerelease, parseVersion, releaseTypes, type ReleaseType } from "../src/semver.js";
+import { lintChangelogs } from "./build-registry.js";
+import { loadComponents, formatProblem, formatFieldPath, type LoadedComponent } from "./load-components.js";
+import type { ChangelogEntry, Manifest } from "../src/schema.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+
+export const exitCodes = {
+  ok: 0,
+  invalid: 1,
+  buildFailed: 2,
+} as const;
+
+const changeTypes = ["feature", "fix", "breaking"] as const;
+export type ChangeType = (typeof changeTypes)[number];
+
+const bumpRequestSchema = z.object({
+  name: z.string(),
+  type: z.enum(releaseTypes as [ReleaseType, ...ReleaseType[]]),
+  change: z.enum(changeTypes).optional().describe("Defaults from the release type — see defaultChangeType"),
+  note: z.string().trim().min(1, "must not be empty"),
+  preid: z.string().optional(),
+}).strict();
+export type BumpRequest = z.infer<typeof bumpRequestSchema>;
+
+// A plan file is a JSON or YAML list of bump requests
+export const bumpPlanSchema = z.array(bumpRequestSchema).min(1, "must list at least one bump");
+
+export interface PlannedBump {
   name: string;
-  type: string;
-  description: string;
-  version: string;
-  changelog: ChangelogEntry[];
-  [key: string]: unknown;
+  manifestPath: string;
+  from: string;
+  to: string;
+  /** manifest.json as it is now, and as it will be written */
+  before: string;
+  after: string;
 }
 
-interface ComponentInfo {
-  name: string;
-  type: string;
-  version: string;
-  dir: string;
-  manifestPath: string;
+export function bumpVersion(version: string, type: ReleaseType, preid?: string): string {
+  return incrementVersion(version, type, preid);
 }
 
-function bumpVersion(version: string, type: "major" | "minor" | "patch"): string {
-  const [major, minor, patch] = version.split(".").map(Number);
-  switch (type) {
-    case "major":
-      return `${major + 1}.0.0`;
-    case "minor":
-      return `${major}.${minor + 1}.0`;
-    case "patch":
-      return `${major}.${minor}.${patch + 1}`;
-  }
+// Default changelog type for a bump — breaking for majors, feature for minors
+export function defaultChangeType(type: ReleaseType): ChangeType {
+  if (type === "major" || type === "premajor") return "breaking";
+  if (type === "minor" || type === "preminor") return "feature";
+  return "fix";
 }
 
-async function scanComponents(): Promise<ComponentInfo[]> {
-  const { readdir, readFile } = await import("fs/promises");
-  const { join } = await import("path");
+// Prerelease bumps keep the current identifier unless told otherwise
+export function preidFor(version: string, preid?: string): string {
+  const current = parseVersion(version)?.prerelease.find((id) => typeof id === "string");
+  return preid ?? (typeof current === "string" ? current : "beta");
+}
 
-  const ROOT = new URL("..", import.meta.url).pathname;
-  const COMPONENTS_DIR = join(ROOT, "components");
-  const components: ComponentInfo[] = [];
+// The manifest after a bump: new version, with its changelog entry on top
+export function applyBump(manifest: Manifest, request: BumpRequest, date: string): Manifest {
+  const version = bumpVersion(manifest.version, request.type, preidFor(manifest.version, request.preid));
+  const entry: ChangelogEntry = {
+    version,
+    date,
+    type: request.change ?? defaultChangeType(request.type),
+    note: request.note.trim(),
+  };
+  return { ...manifest, version, changelog: [entry, ...(manifest.changelog ?? [])] };
+}
 
-  for (const typeDir of ["agents", "tools", "skills", "storage", "package"]) {
-    const dir = join(COMPONENTS_DIR, typeDir);
-    let entries: string[];
-    try {
-      entries = await readdir(dir);
-    } catch {
-      continue;
-    }
+// How dependents of a bumped component are bumped with it: always a
+// patch, or the same release type as their highest bumped dependency
+export const cascadeModes = ["patch", "match"] as const;
+export type CascadeMode = (typeof cascadeModes)[number];
+
+// Lowest to highest, for picking a dependent's release type in "match" mode
+const releaseRank: ReleaseType[] = ["prerelease", "prepatch", "patch", "preminor", "minor", "premajor", "major"];
+
+// Bumps for every component that depends, directly or transitively, on one
+// being bumped — each noted with the dependency versions it now expects,
+// e.g. "Updated dependency example-tool to 1.0.0". Components already
+// requested keep their own bump.
+export function cascadeBumps(manifests: Manifest[], requests: BumpRequest[], mode: CascadeMode = "patch"): BumpRequest[] {
+  const index = { items: manifests };
+  const byName = new Map(manifests.map((m) => [m.name, m]));
+  // Maps bumped component → its new version and release type
+  const bumped = new Map<string, { version: string; type: ReleaseType }>();
+  for (const request of requests) {
+    const manifest = byName.get(request.name);
+    if (!manifest) continue;
+    const version = bumpVersion(manifest.version, request.type, preidFor(manifest.version, request.preid));
+    bumped.set(request.name, { version, type: request.type });
+  }
 
-    for (const entry of entries) {
-      const componentDir = join(dir, entry);
-      const manifestPath = join(componentDir, "manifest.json");
-      try {
-        const raw = await readFile(manifestPath, "utf-8");
-        const manifest: ComponentManifest = JSON.parse(raw);
-        components.push({
-          name: manifest.name,
-          type: typeDir,
-          version: manifest.version ?? "1.0.0",
-          dir: componentDir,
-          manifestPath,
-        });
-      } catch {
-        continue;
-      }
+  const affected = new Set<string>();
+  for (const name of bumped.keys()) {
+    for (const dependent of findDependents(index, name, { transitive: true })) {
+      if (!bumped.has(dependent)) affected.add(dependent);
     }
   }
 
-  return components.sort((a, b) => a.name.localeCompare(b.name));
+  // Dependencies before dependents, so every note names a final version
+  const cascaded: BumpRequest[] = [];
+  const pending = [...affected].sort();
+  while (pending.length > 0) {
+    const dependencies = (name: string) => byName.get(name)!.registryDependencies ?? [];
+    let next = pending.findIndex((name) => !dependencies(name).some((dep) => pending.includes(dep) && dep !== name));
+    // A cycle (already reported by validate) — take the rest as they come,
+    // starting from one whose dependencies already include a bump
+    if (next === -1) next = pending.findIndex((name) => dependencies(name).some((dep) => bumped.has(dep)));
+    const [name] = pending.splice(next, 1);
+    const manifest = byName.get(name)!;
+
+    const updated = (manifest.registryDependencies ?? []).filter((dep) => bumped.has(dep));
+    const type = mode === "patch"
+      ? "patch"
+      : updated.map((dep) => bumped.get(dep)!.type).reduce((a, b) => (releaseRank.indexOf(b) > releaseRank.indexOf(a) ? b : a));
+    const note = updated.map((dep) => `Updated dependency ${dep} to ${bumped.get(dep)!.version}`).join("\n");
+
+    bumped.set(name, { version: bumpVersion(manifest.version, type, preidFor(manifest.version)), type });
+    cascaded.push({ name, type, change: defaultChangeType(type), note });
+  }
+  return cascaded;
 }
 
-if (import.meta.main) {
-  const { readFile, writeFile } = await import("fs/promises");
-  const { spawn } = await import("child_process");
+// Problems are located as "plan[1].type — ..." so they can be found in the file
+export function parsePlan(source: string): { requests: BumpRequest[]; problems: string[] } {
+  let raw: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both formats
+    raw = parseYaml(source);
+  } catch (err) {
+    return { requests: [], problems: [`invalid plan: ${(err as Error).message.split("\n")[0]}`] };
+  }
 
-  p.intro(pc.bold("kitn bump"));
+  const parsed = bumpPlanSchema.safeParse(raw);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${formatFieldPath(["plan", ...issue.path])} — ${issue.message}`);
+    return { requests: [], problems };
+  }
+  return { requests: parsed.data, problems: [] };
+}
 
-  const components = await scanComponents();
-  if (components.length === 0) {
-    p.log.error("No components found.");
-    process.exit(1);
+// Resolves every request against the registry and lints the resulting
+// changelogs. Nothing is written — `bumps` is empty whenever there are problems.
+export async function planBumps(
+  requests: BumpRequest[],
+  options: { root?: string; date?: string } = {},
+): Promise<{ bumps: PlannedBump[]; problems: string[] }> {
+  const root = options.root ?? ROOT;
+  const date = options.date ?? new Date().toISOString().split("T")[0];
+
+  const loaded = await loadComponents(root);
+  if (loaded.problems.length > 0) {
+    return { bumps: [], problems: loaded.problems.map(formatProblem) };
   }
 
-  // Resolve component — from positional arg or interactive picker
-  const arg = process.argv[2];
-  let component: ComponentInfo;
+  const byName = new Map(loaded.components.map((c) => [c.manifest.name, c]));
+  const problems: string[] = [];
+  const bumps: PlannedBump[] = [];
+  const updated: Array<Pick<LoadedComponent, "manifest" | "typeDir" | "manifestPath">> = [];
+  const seen = new Set<string>();
 
-  if (arg) {
-    const found = components.find((c) => c.name === arg);
-    if (!found) {
-      p.log.error(`Component ${pc.bold(arg)} not found.`);
-      p.log.info(`Available: ${components.map((c) => c.name).join(", ")}`);
-      process.exit(1);
+  for (const request of requests) {
+    const component = byName.get(request.name);
+    if (!component) {
+      problems.push(`${request.name}: no such component`);
+      continue;
     }
-    component = found;
-    p.log.info(`Component: ${pc.bold(component.name)} ${pc.dim(`(${component.version})`)}`);
-  } else {
-    const selected = await p.select({
-      message: "Which component?",
-      options: components.map((c) => ({
-        value: c.name,
-        label: `${c.name} ${pc.dim(`(${c.version})`)}`,
-      })),
+    if (seen.has(request.name)) {
+      problems.push(`${request.name}: listed more than once`);
+      continue;
+    }
+    seen.add(request.name);
+
+    const manifest = applyBump(component.manifest, request, date);
+    const before = await readFile(component.manifestPath, "utf-8");
+    const after = JSON.stringify({ ...JSON.parse(before), version: manifest.version, changelog: manifest.changelog }, null, 2) + "\n";
+    updated.push({ ...component, manifest });
+    bumps.push({
+      name: request.name,
+      manifestPath: component.manifestPath,
+      from: component.manifest.version,
+      to: manifest.version,
+      before,
+      after,
     });
+  }
 
-    if (p.isCancel(selected)) {
-      p.cancel("Cancelled.");
-      process.exit(0);
-    }
+  // Existing changelogs must already be clean — the bumped ones are checked as they will be written
+  const others = loaded.components.filter((c) => !seen.has(c.manifest.name));
+  problems.push(...(await lintChangelogs(root, [...others, ...updated])).map(formatProblem));
 
-    component = components.find((c) => c.name === selected)!;
-  }
+  return problems.length > 0 ? { bumps: [], problems } : { bumps, problems };
+}
 
-  // Version bump type
-  const patchVersion = bumpVersion(component.version, "patch");
-  const minorVersion = bumpVersion(component.version, "minor");
-  const majorVersion = bumpVersion(component.version, "major");
+export async function writeBumps(bumps: PlannedBump[]): Promise<void> {
+  for (const bump of bumps) await writeFile(bump.manifestPath, bump.after);
+}
 
-  const bumpType = await p.select({
-    message: "Version bump?",
-    options: [
-      { value: "patch" as const, label: `patch ${pc.dim(`→ ${patchVersion}`)}` },
-      { value: "minor" as const, label: `minor ${pc.dim(`→ ${minorVersion}`)}` },
-      { value: "major" as const, label: `major ${pc.dim(`→ ${majorVersion}`)}` },
-    ],
-  });
+// Line diff of a manifest before and after a bump, with a line of context
+// around each change
+export function manifestDiff(before: string, after: string): string[] {
+  const lines = diffLines(before.split("\n"), after.split("\n"));
+  const near = (k: number) => lines.slice(Math.max(0, k - 1), k + 2).some((line) => line.mark !== " ");
+  return lines.filter((_, k) => near(k)).map(({ mark, text }) => `${mark} ${text}`);
+}
 
-  if (p.isCancel(bumpType)) {
-    p.cancel("Cancelled.");
-    process.exit(0);
-  }
+// Colored manifest diff for --dry-run output, headed by the manifest path
+export function formatBumpDiff(bump: PlannedBump): string {
+  const lines = manifestDiff(bump.before, bump.after)
+    .map((line) => (line.startsWith("+") ? pc.green(line) : line.startsWith("-") ? pc.red(line) : pc.dim(line)));
+  return [pc.dim(`--- ${relative(ROOT, bump.manifestPath)}`), ...lines].join("\n");
+}
 
-  const newVersion = bumpVersion(component.version, bumpType);
+// Runs the build script in a child process, capturing its output
+export async function rebuildRegistry(): Promise<{ ok: boolean; output: string }> {
+  const { spawn } = await import("child_process");
+  const buildScript = new URL("./build-registry.ts", import.meta.url).pathname;
+  const child = spawn("bun", ["run", buildScript], { stdio: "pipe" });
 
-  // Changelog type — default based on bump type
-  const defaultChangeType = bumpType === "major" ? "breaking" : bumpType === "minor" ? "feature" : "fix";
+  let output = "";
+  child.stdout.on("data", (data: Buffer) => { output += data.toString(); });
+  child.stderr.on("data", (data: Buffer) => { output += data.toString(); });
 
-  const changeType = await p.select({
-    message: "Change type?",
-    initialValue: defaultChangeType,
-    options: [
-      { value: "feature", label: "feature" },
-      { value: "fix", label: "fix" },
-      { value: "breaking", label: "breaking" },
-    ],
+  const code = await new Promise<number>((resolve) => {
+    child.on("close", (code) => resolve(code ?? 1));
   });
+  return { ok: code === 0, output };
+}
 
-  if (p.isCancel(changeType)) {
+// Exit early on a cancelled prompt
+function answered<T>(value: T | symbol): T {
+  if (p.isCancel(value)) {
     p.cancel("Cancelled.");
-    process.exit(0);
+    process.exit(exitCodes.ok);
   }
+  return value as T;
+}
 
-  // Changelog note
-  const note = await p.text({
-    message: "Changelog note:",
-    validate: (value) => {
-      if (!value.trim()) return "A changelog note is required.";
+if (import.meta.main) {
+  const { parseArgs } = await import("util");
+
+  const parse = () => parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      type: { type: "string" },
+      change: { type: "string" },
+      note: { type: "string" },
+      preid: { type: "string" },
+      plan: { type: "string" },
+      cascade: { type: "string" },
+      "no-cascade": { type: "boolean" },
+      "dry-run": { type: "boolean", default: false },
+      build: { type: "boolean" },
+      "no-build": { type: "boolean" },
     },
+    allowPositionals: true,
   });
 
-  if (p.isCancel(note)) {
-    p.cancel("Cancelled.");
-    process.exit(0);
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse();
+  } catch (err) {
+    console.error(`\x1b[31m✗\x1b[0m ${(err as Error).message}`);
+    process.exit(exitCodes.invalid);
   }
+  const { values: flags, positionals } = parsed;
 
-  // Update manifest
-  const raw = await readFile(component.manifestPath, "utf-8");
-  const manifest: ComponentManifest = JSON.parse(raw);
+  const interactive = Boolean(process.stdin.isTTY) && !flags.plan;
+  const fail = (message: string): never => {
+    p.log.error(message);
+    process.exit(exitCodes.invalid);
+  };
 
-  manifest.version = newVersion;
+  p.intro(pc.bold("kitn bump"));
 
-  const today = new Date().toISOString().split("T")[0];
-  const entry: ChangelogEntry = {
-    version: newVersion,
-    date: today,
-    type: changeType,
-    note: note.trim(),
-  };
+  // Problems surface through planBumps below, with the rest
+  const manifests = (await loadComponents(ROOT)).components.map((c) => c.manifest);
+  let requests: BumpRequest[];
 
-  if (!manifest.changelog) {
-    manifest.changelog = [];
-  }
-  manifest.changelog.unshift(entry);
+  if (flags.plan) {
+    if (positionals.length > 0 || flags.type || flags.change || flags.note || flags.preid) {
+      fail("--plan can't be combined with component names or --type/--change/--note/--preid.");
+    }
+    let source = "";
+    try {
+      source = await readFile(flags.plan, "utf-8");
+    } catch {
+      fail(`Can't read plan file ${pc.bold(flags.plan)}.`);
+    }
+    const plan = parsePlan(source);
+    if (plan.problems.length > 0) fail(`Invalid plan ${pc.bold(flags.plan)}:\n${plan.problems.join("\n")}`);
+    requests = plan.requests;
+  } else {
+    const sorted = [...manifests].sort((a, b) => a.name.localeCompare(b.name));
+    if (sorted.length === 0) fail("No components found.");
+
+    // Components — from positional args or an interactive picker
+    let names = positionals;
+    if (names.length === 0) {
+      if (!interactive) fail("Name the component(s) to bump, or pass --plan <file>.");
+      names = [answered(await p.select({
+        message: "Which component?",
+        options: sorted.map((m) => ({ value: m.name, label: `${m.name} ${pc.dim(`(${m.version})`)}` })),
+      }))];
+    }
+    const unknown = names.filter((name) => !sorted.some((m) => m.name === name));
+    if (unknown.length > 0) {
+      fail(`Component(s) not found: ${unknown.map((n) => pc.bold(n)).join(", ")}\nAvailable: ${sorted.map((m) => m.name).join(", ")}`);
+    }
+    const first = sorted.find((m) => m.name === names[0])!;
+    if (names.length === 1) p.log.info(`Component: ${pc.bold(first.name)} ${pc.dim(`(${first.version})`)}`);
+
+    // Release type — prerelease options use --preid, or the current identifier
+    let type = flags.type as ReleaseType | undefined;
+    if (type !== undefined && !releaseTypes.includes(type)) {
+      fail(`Unknown --type ${pc.bold(type)}. Expected one of: ${releaseTypes.join(", ")}`);
+    }
+    if (type === undefined) {
+      if (!interactive) fail("--type is required when not running interactively.");
+      const options: ReleaseType[] = isPrerelease(first.version)
+        ? ["prerelease", "patch", "minor", "major"]
+        : ["patch", "minor", "major", "prepatch", "preminor", "premajor"];
+      type = answered(await p.select({
+        message: "Version bump?",
+        options: options.map((t) => ({
+          value: t,
+          label: `${t} ${pc.dim(`→ ${bumpVersion(first.version, t, preidFor(first.version, flags.preid))}`)}`,
+        })),
+      }));
+    }
 
-  await writeFile(component.manifestPath, JSON.stringify(manifest, null, 2) + "\n");
-  p.log.success(`Updated ${pc.bold(component.name)}: ${pc.dim(component.version)} → ${pc.green(newVersion)}`);
+    let change = flags.change as ChangeType | undefined;
+    if (change !== undefined && !changeTypes.includes(change)) {
+      fail(`Unknown --change ${pc.bold(change)}. Expected one of: ${changeTypes.join(", ")}`);
+    }
+    if (change === undefined && interactive) {
+      change = answered(await p.select({
+        message: "Change type?",
+        initialValue: defaultChangeType(type),
+        options: changeTypes.map((c) => ({ value: c, label: c })),
+      }));
+    }
 
-  // Offer to rebuild
-  const rebuild = await p.confirm({
-    message: "Rebuild registry?",
-    initialValue: true,
-  });
+    let note = flags.note;
+    if (note === undefined || !note.trim()) {
+      if (!interactive) fail("--note is required when not running interactively.");
+      note = answered(await p.text({
+        message: "Changelog note:",
+        validate: (value) => {
+          if (!value.trim()) return "A changelog note is required.";
+        },
+      }));
+    }
 
-  if (p.isCancel(rebuild)) {
-    p.cancel("Cancelled.");
-    process.exit(0);
+    requests = names.map((name) => ({ name, type: type!, change, note: note!, preid: flags.preid }));
   }
 
-  if (rebuild) {
-    const s = p.spinner();
-    s.start("Building registry...");
+  // Dependents of what's being bumped are always listed; they're bumped too
+  // with --cascade, or when an interactive run says so
+  let cascade = flags.cascade as CascadeMode | undefined;
+  if (cascade !== undefined && !cascadeModes.includes(cascade)) {
+    fail(`Unknown --cascade ${pc.bold(cascade)}. Expected one of: ${cascadeModes.join(", ")}`);
+  }
+  const dependents = cascadeBumps(manifests, requests);
+  if (dependents.length > 0) {
+    p.log.warn(`Dependents affected:\n${dependents.map((d) => `${pc.bold(d.name)} — ${d.note.replaceAll("\n", "; ")}`).join("\n")}`);
+    if (cascade === undefined && interactive && !flags["no-cascade"]) {
+      const selected = answered(await p.select({
+        message: "Bump dependents too?",
+        options: [
+          { value: "none", label: "no" },
+          { value: "patch", label: "yes, patch" },
+          { value: "match", label: "yes, with the same release type as their dependency" },
+        ],
+      }));
+      cascade = selected === "none" ? undefined : selected;
+    }
+    if (cascade && !flags["no-cascade"]) requests = [...requests, ...cascadeBumps(manifests, requests, cascade)];
+  }
 
-    const buildScript = new URL("./build-registry.ts", import.meta.url).pathname;
-    const child = spawn("bun", ["run", buildScript], { stdio: "pipe" });
+  const { bumps, problems } = await planBumps(requests);
+  if (problems.length > 0) fail(`Nothing was bumped:\n${problems.join("\n")}`);
 
-    let output = "";
-    child.stdout.on("data", (data: Buffer) => { output += data.toString(); });
-    child.stderr.on("data", (data: Buffer) => { output += data.toString(); });
+  if (flags["dry-run"]) {
+    for (const bump of bumps) {
+      p.log.info(`${pc.bold(bump.name)}: ${pc.dim(bump.from)} → ${pc.green(bump.to)}\n${formatBumpDiff(bump)}`);
+    }
+    p.outro(`Dry run — ${bumps.length} manifest(s) unchanged.`);
+    process.exit(exitCodes.ok);
+  }
 
-    const code = await new Promise<number>((resolve) => {
-      child.on("close", (code) => resolve(code ?? 1));
-    });
+  await writeBumps(bumps);
+  for (const bump of bumps) {
+    p.log.success(`Updated ${pc.bold(bump.name)}: ${pc.dim(bump.from)} → ${pc.green(bump.to)}`);
+  }
 
-    if (code === 0) {
-      s.stop("Registry rebuilt.");
-    } else {
+  // Rebuild unless --no-build; interactive runs are asked unless --build says so
+  let build = !flags["no-build"] && (flags.build ?? true);
+  if (interactive && !flags["no-build"] && flags.build === undefined) {
+    build = answered(await p.confirm({ message: "Rebuild registry?", initialValue: true }));
+  }
+
+  if (build) {
+    const s = p.spinner();
+    s.start("Building registry...");
+    const { ok, output } = await rebuildRegistry();
+    if (!ok) {
       s.stop(pc.red("Build failed."));
       p.log.error(output);
-      process.exit(1);
+      process.exit(exitCodes.buildFailed);
     }
+    s.stop("Registry rebuilt.");
   }
 
   p.outro("Done!");
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createDevHandler } from "./dev-server.js";
+
+describe("createDevHandler", () => {
+  let root: string;
+  let handle: (req: Request) => Promise<Response>;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-dev-"));
+    await mkdir(join(root, "r", "tools"), { recursive: true });
+    await writeFile(join(root, "r", "registry.json"), `{"version":"1.0.0","items":[]}\n`);
+    await writeFile(join(root, "r", "tools", "echo-tool.json"), `{"name":"echo-tool"}\n`);
+    await writeFile(join(root, "index.html"), "<!doctype html>\n");
+    await writeFile(join(root, "package.json"), "{}\n");
+    handle = createDevHandler(root);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  const get = (path: string, headers: Record<string, string> = {}) =>
+    handle(new Request(`http://localhost${path}`, { headers }));
+
+  it("serves registry JSON with CORS and an ETag", async () => {
+    const res = await get("/r/tools/echo-tool.json");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("application/json; charset=utf-8");
+    expect(res.headers.get("Access-Control-Allow-Origin")).toBe("*");
+    expect(res.headers.get("ETag")).toMatch(/^"[\w-]{27}"$/);
+    expect(await res.json()).toEqual({ name: "echo-tool" });
+  });
+
+  it("answers 304 when If-None-Match matches the current ETag", async () => {
+    const etag = (await get("/r/registry.json")).headers.get("ETag")!;
+    const res = await get("/r/registry.json", { "If-None-Match": etag });
+    expect(res.status).toBe(304);
+    expect(await res.text()).toBe("");
+  });
+
+  it("serves index.html at the root", async () => {
+    const res = await get("/");
+    expect(res.status).toBe(200);
+    expect(res.headers.get("Content-Type")).toBe("text/html; charset=utf-8");
+  });
+
+  it("refuses paths outside r/", async () => {
+    expect((await get("/r/%2e%2e/package.json")).status).toBe(404);
+    expect((await get("/package.json")).status).toBe(404);
+    expect((await get("/r/tools/missing.json")).status).toBe(404);
+  });
+
+  it("rejects malformed escapes", async () => {
+    expect((await get("/r/%E0")).status).toBe(400);
+  });
+
+  it("answers CORS preflight requests", async () => {
+    const res = await handle(new Request("http://localhost/r/registry.json", { method: "OPTIONS" }));
+    expect(res.status).toBe(204);
+    expect(res.headers.get("Access-Control-Allow-Methods")).toContain("GET");
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Local registry dev server — watches components/, rebuilds what changed,
+ * re-validates the affected components and serves r/ and index.html.
+ *
+ * Run: bun run dev [--port 4545]
+ *
+ * Then point the kitn CLI at it:
+ *   kitn registry add @local http://localhost:4545/r
+ */
+
+import { readFile, stat } from "fs/promises";
+import { watch } from "fs";
+import { join, resolve, extname, sep } from "path";
+import { createHash } from "crypto";
+import pc from "picocolors";
+import { buildRegistry } from "./build-registry.js";
+import { validateRegistry } from "./validate-registry.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+
+const contentTypes: Record<string, string> = {
+  ".json": "application/json; charset=utf-8",
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
+  "Access-Control-Allow-Headers": "If-None-Match",
+  "Access-Control-Expose-Headers": "ETag",
+};
+
+// Request handler for r/ and index.html, separate from the server so it can
+// be exercised without binding a port.
+export function createDevHandler(root: string = ROOT): (req: Request) => Promise<Response> {
+  const registryDir = resolve(root, "r");
+
+  return async (req) => {
+    if (req.method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: corsHeaders });
+    }
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      return new Response("Method Not Allowed", { status: 405, headers: corsHeaders });
+    }
+
+    const { pathname } = new URL(req.url);
+    let filePath: string;
+    if (pathname === "/" || pathname === "/index.html") {
+      filePath = join(root, "index.html");
+    } else if (pathname.startsWith("/r/")) {
+      let decoded: string;
+      try {
+        decoded = decodeURIComponent(pathname.slice(2));
+      } catch {
+        // Malformed escape, e.g. /r/%E0
+        return new Response("Bad Request", { status: 400, headers: corsHeaders });
+      }
+      filePath = resolve(registryDir, "." + decoded);
+      // Refuse anything that escapes r/ (e.g. /r/../package.json)
+      if (!filePath.startsWith(registryDir + sep)) {
+        return new Response("Not Found", { status: 404, headers: corsHeaders });
+      }
+    } else {
+      return new Response("Not Found", { status: 404, headers: corsHeaders });
+    }
+
+    let body: Buffer;
+    try {
+      if (!(await stat(filePath)).isFile()) throw new Error("not a file");
+      body = await readFile(filePath);
+    } catch {
+      return new Response("Not Found", { status: 404, headers: corsHeaders });
+    }
+
+    const etag = `"${createHash("sha256").update(body).digest("base64url").slice(0, 27)}"`;
+    const headers = {
+      ...corsHeaders,
+      "Content-Type": contentTypes[extname(filePath)] ?? "application/octet-stream",
+      "Cache-Control": "no-cache",
+      ETag: etag,
+    };
+
+    if (req.headers.get("If-None-Match") === etag) {
+      return new Response(null, { status: 304, headers });
+    }
+    return new Response(req.method === "HEAD" ? null : body, { status: 200, headers });
+  };
+}
+
+// Rebuild, then validate only the components whose items changed
+async function rebuild(): Promise<void> {
+  const started = performance.now();
+  // Leave name@version.json alone — edits in progress aren't releases
+  const result = await buildRegistry({ root: ROOT, versioned: false });
+  if (result.manifestProblems > 0 || result.immutabilityErrors > 0) {
+    console.log(pc.red("✗ Build failed — still serving the previous registry"));
+    return;
+  }
+
+  const changed = result.written
+    .map((f) => f.match(/^[^/]+\/([^/@]+)\.json$/)?.[1])
+    .filter((name): name is string => !!name);
+
+  if (changed.length > 0) {
+    const { errors } = await validateRegistry({ root: ROOT, only: changed });
+    if (errors > 0) {
+      console.log(pc.yellow(`! ${errors} validation error(s) in ${changed.join(", ")}`));
+    }
+  }
+
+  const ms = Math.round(performance.now() - started);
+  const summary = changed.length > 0 ? `rebuilt ${changed.join(", ")}` : "no changes";
+  console.log(pc.dim(`[${new Date().toLocaleTimeString()}] ${summary} (${ms}ms)`));
+}
+
+// CLI entry point — run with `bun run scripts/dev-server.ts`
+if (import.meta.main) {
+  const { parseArgs } = await import("util");
+
+  const { values: flags } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: "string", default: process.env.PORT ?? "4545" },
+    },
+  });
+
+  await rebuild();
+
+  const server = Bun.serve({ port: Number(flags.port), fetch: createDevHandler(ROOT) });
+  const url = `http://localhost:${server.port}`;
+  console.log(`\n${pc.green("✓")} Serving ${pc.bold(url)}`);
+  console.log(`  kitn registry add @local ${url}/r\n`);
+
+  // Coalesce bursts of file events (editors often write several times per save)
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let building: Promise<void> | undefined;
+  let pending = false;
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(async () => {
+      if (building) {
+        pending = true;
+        return;
+      }
+      building = rebuild().catch((err) => console.error(pc.red(String(err))));
+      await building;
+      building = undefined;
+      if (pending) {
+        pending = false;
+        schedule();
+      }
+    }, 100);
+  };
+
+  watch(join(ROOT, "components"), { recursive: true }, schedule);
+  console.log(pc.dim("Watching components/ for changes..."));
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { cp, mkdtemp, mkdir, writeFile, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { buildRegistry } from "./build-registry.js";
+import { diffDirectories, parseVersionRange, readVersion } from "./diff-registry.js";
+
+describe("parseVersionRange", () => {
+  it("splits name@from..to, including prereleases", () => {
+    expect(parseVersionRange("example-tool@0.1.0..0.2.0")).toEqual({ name: "example-tool", from: "0.1.0", to: "0.2.0" });
+    expect(parseVersionRange("x@1.0.0-beta.1..1.0.0")).toEqual({ name: "x", from: "1.0.0-beta.1", to: "1.0.0" });
+    expect(parseVersionRange("example-tool@0.1.0")).toBeNull();
+    expect(parseVersionRange("r/tools")).toBeNull();
+  });
+});
+
+describe("version diffs", () => {
+  let root: string;
+  const dir = () => join(root, "components", "tools", "echo-tool");
+
+  async function writeTool(version: string, source: string, changelog: object[]) {
+    await writeFile(join(dir(), "echo-tool.ts"), source);
+    await writeFile(join(dir(), "manifest.json"), JSON.stringify({
+      name: "echo-tool",
+      type: "kitn:tool",
+      description: "Echo",
+      version,
+      files: ["echo-tool.ts"],
+      changelog,
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-diff-"));
+    await mkdir(dir(), { recursive: true });
+    const initial = { version: "1.0.0", date: "2025-01-01", type: "initial", note: "Initial release" };
+    await writeTool("1.0.0", "export const echo = (s: string) => s;\n", [initial]);
+    await buildRegistry({ root });
+    await cp(join(root, "r"), join(root, "r-1.0.0"), { recursive: true });
+
+    const feature = { version: "1.1.0", date: "2025-02-01", type: "feature", note: "Shouts" };
+    await writeTool("1.1.0", "export const echo = (s: string) => s.toUpperCase();\n", [feature, initial]);
+    expect((await buildRegistry({ root, diffs: true })).written).toContain("tools/echo-tool@1.0.0..1.1.0.diff.json");
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("publishes the diff from the previous version when building with diffs", async () => {
+    const diff = JSON.parse(await readFile(join(root, "r", "tools", "echo-tool@1.0.0..1.1.0.diff.json"), "utf-8"));
+    expect(diff).toMatchObject({ name: "echo-tool", from: "1.0.0", to: "1.1.0", metadata: [] });
+    expect(diff.files[0].patch).toContain("+export const echo = (s: string) => s.toUpperCase();");
+  });
+
+  it("reads published versions and diffs whole builds", async () => {
+    expect((await readVersion(join(root, "r"), "echo-tool", "1.0.0")).version).toBe("1.0.0");
+    await expect(readVersion(join(root, "r"), "echo-tool", "9.9.9")).rejects.toThrow("echo-tool@9.9.9 is not published");
+
+    const diffs = await diffDirectories(join(root, "r-1.0.0"), join(root, "r"));
+    expect(diffs.map(({ name, from, to }) => [name, from, to])).toEqual([["echo-tool", "1.0.0", "1.1.0"]]);
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Shows what changed between two versions of a component, or between two
+ * builds of the whole registry.
+ *
+ *   bun run diff example-tool@0.1.0..0.2.0          # two published versions in r/
+ *   bun run diff old-build/r r                      # every component that differs
+ *   bun run diff example-tool@0.1.0..0.2.0 --json   # RegistryItemDiff JSON
+ *
+ * Prints a unified diff per file, plus changes to dependencies, envVars,
+ * registryDependencies and slot. Exits 1 when a version or directory
+ * can't be read.
+ */
+
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import { diffRegistryItems, formatItemDiff } from "../src/diff.js";
+import { registryItemSchema, registryRedirectSchema } from "../src/schema.js";
+import type { RegistryItem, RegistryItemDiff } from "../src/schema.js";
+import { componentTypeDirs } from "./load-components.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+
+// "example-tool@0.1.0..0.2.0" → its parts, or null for anything else
+export function parseVersionRange(arg: string): { name: string; from: string; to: string } | null {
+  const match = /^(.+?)@([^@]+?)\.\.([^@.][^@]*)$/.exec(arg);
+  return match ? { name: match[1], from: match[2], to: match[3] } : null;
+}
+
+// A published name@version.json, found in whichever type directory holds it
+export async function readVersion(outputDir: string, name: string, version: string): Promise<RegistryItem> {
+  for (const typeDir of componentTypeDirs) {
+    const raw = await readFile(join(outputDir, typeDir, `${name}@${version}.json`), "utf-8").catch(() => undefined);
+    if (raw) return registryItemSchema.parse(JSON.parse(raw));
+  }
+  throw new Error(`${name}@${version} is not published in ${outputDir}`);
+}
+
+// Diffs of every component whose latest item differs between two r/
+// directories. Components only on one side are diffed against nothing.
+export async function diffDirectories(fromDir: string, toDir: string): Promise<RegistryItemDiff[]> {
+  const [before, after] = await Promise.all([readLatestItems(fromDir), readLatestItems(toDir)]);
+  const diffs: RegistryItemDiff[] = [];
+
+  for (const key of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+    const a = before.get(key);
+    const b = after.get(key);
+    const diff = diffRegistryItems(a ?? emptyItem(b!), b ?? emptyItem(a!));
+    if (diff.files.length > 0 || diff.metadata.length > 0) diffs.push(diff);
+  }
+  return diffs;
+}
+
+// Maps "tools/example-tool" → its latest item
+async function readLatestItems(outputDir: string): Promise<Map<string, RegistryItem>> {
+  const items = new Map<string, RegistryItem>();
+  await readdir(outputDir); // fail loudly on a missing directory
+  for (const typeDir of componentTypeDirs) {
+    const entries = await readdir(join(outputDir, typeDir)).catch(() => [] as string[]);
+    for (const entry of entries.sort()) {
+      if (!entry.endsWith(".json") || entry.includes("@")) continue;
+      const json = JSON.parse(await readFile(join(outputDir, typeDir, entry), "utf-8"));
+      // Old names of renamed components are redirect stubs, not items
+      if (registryRedirectSchema.safeParse(json).success) continue;
+      items.set(`${typeDir}/${entry.replace(/\.json$/, "")}`, registryItemSchema.parse(json));
+    }
+  }
+  return items;
+}
+
+// The missing side of a component that was added or removed
+function emptyItem(item: RegistryItem): RegistryItem {
+  return { name: item.name, type: item.type, description: item.description, version: item.version, files: [] };
+}
+
+if (import.meta.main) {
+  const { parseArgs } = await import("util");
+
+  const { values: flags, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      json: { type: "boolean", default: false },
+    },
+    allowPositionals: true,
+  });
+
+  const range = positionals.length === 1 ? parseVersionRange(positionals[0]) : null;
+  if (!range && positionals.length !== 2) {
+    console.error("Usage: bun run diff <name>@<from>..<to> [--json]");
+    console.error("       bun run diff <from r/ dir> <to r/ dir> [--json]");
+    process.exit(1);
+  }
+
+  let diffs: RegistryItemDiff[];
+  try {
+    if (range) {
+      const outputDir = join(ROOT, "r");
+      const from = await readVersion(outputDir, range.name, range.from);
+      const to = await readVersion(outputDir, range.name, range.to);
+      diffs = [diffRegistryItems(from, to)];
+    } else {
+      diffs = await diffDirectories(positionals[0], positionals[1]);
+    }
+  } catch (err) {
+    console.error(`\x1b[31m✗\x1b[0m ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  if (flags.json) {
+    console.log(JSON.stringify(range ? diffs[0] : diffs, null, 2));
+  } else if (diffs.length === 0) {
+    console.log("No changes.");
+  } else {
+    console.log(diffs.map(formatItemDiff).join("\n\n"));
+  }
+}
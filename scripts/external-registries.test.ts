@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadExternalRegistries, resolveExternalDependencies } from "./external-registries.js";
+import { loadComponents } from "./load-components.js";
+
+const snapshot = {
+  version: "1.0.0",
+  items: [
+    {
+      name: "geo-tool",
+      type: "kitn:tool",
+      description: "Geocoding",
+      version: "1.4.0",
+      versions: ["1.4.0", "1.3.0", "0.9.0"],
+      distTags: { latest: "1.4.0" },
+      integrity: "sha256-geo",
+    },
+  ],
+};
+
+describe("external registries", () => {
+  let root: string;
+
+  async function addTool(name: string, registryDependencies: string[]) {
+    const dir = join(root, "components", "tools", name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.ts`), "export {};\n");
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      type: "kitn:tool",
+      description: name,
+      version: "1.0.0",
+      files: [`${name}.ts`],
+      registryDependencies,
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-external-"));
+    await writeFile(join(root, "registry.config.json"), JSON.stringify({
+      registries: {
+        "@acme": { url: "https://acme.example.com/r/", snapshot: "registries/acme.json" },
+        "@globex": { url: "https://globex.example.com/r", snapshot: "registries/globex.json" },
+      },
+    }));
+    await mkdir(join(root, "registries"));
+    await writeFile(join(root, "registries", "acme.json"), JSON.stringify(snapshot));
+    await addTool("route-tool", ["@acme/geo-tool@^1.3", "@acme/geo-tool@~0.9"]);
+    await addTool("map-tool", ["@acme/geo-tool@^2", "@initech/geo-tool", "route-tool"]);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("loads snapshots and reports the ones that are missing", async () => {
+    const { registries, problems } = await loadExternalRegistries(root);
+    expect(registries.get("@acme")?.url).toBe("https://acme.example.com/r");
+    expect(registries.get("@acme")?.index?.items[0].name).toBe("geo-tool");
+    expect(problems).toEqual([
+      { file: "registries/globex.json", message: `snapshot of @globex is missing — run "bun run sync @globex" to download it` },
+    ]);
+  });
+
+  it("pins each reference to the newest version in range", async () => {
+    const { components } = await loadComponents(root);
+    const { registries } = await loadExternalRegistries(root);
+    const { resolved, problems } = resolveExternalDependencies(root, components, registries);
+
+    expect(resolved.get("route-tool")).toEqual({
+      "@acme/geo-tool@^1.3": {
+        registry: "https://acme.example.com/r",
+        name: "geo-tool",
+        type: "kitn:tool",
+        version: "1.4.0",
+        url: "https://acme.example.com/r/tools/geo-tool@1.4.0.json",
+        integrity: "sha256-geo",
+      },
+      "@acme/geo-tool@~0.9": {
+        registry: "https://acme.example.com/r",
+        name: "geo-tool",
+        type: "kitn:tool",
+        version: "0.9.0",
+        url: "https://acme.example.com/r/tools/geo-tool@0.9.0.json",
+        integrity: undefined,
+      },
+    });
+    expect(problems).toEqual([
+      {
+        file: "components/tools/map-tool/manifest.json",
+        field: "registryDependencies[0]",
+        message: `can't be resolved — no published version of "geo-tool" satisfies "^2" (has 1.4.0, 1.3.0, 0.9.0)`,
+      },
+      {
+        file: "components/tools/map-tool/manifest.json",
+        field: "registryDependencies[1]",
+        message: `can't be resolved — "@initech" is not in registry.config.json`,
+      },
+    ]);
+  });
+
+  it("only accepts http(s) registry URLs", async () => {
+    const other = await mkdtemp(join(tmpdir(), "kitn-external-scheme-"));
+    try {
+      await writeFile(join(other, "registry.config.json"), JSON.stringify({
+        registries: { "@acme": { url: "javascript:alert(1)", snapshot: "acme.json" } },
+      }));
+      const { registries, problems } = await loadExternalRegistries(other);
+      expect(registries.size).toBe(0);
+      expect(problems).toEqual([{ file: "registry.config.json", field: "registries.@acme.url", message: "must be an http(s) URL" }]);
+    } finally {
+      await rm(other, { recursive: true, force: true });
+    }
+  });
+
+  it("has no registries without a config", async () => {
+    const empty = await mkdtemp(join(tmpdir(), "kitn-external-empty-"));
+    try {
+      const { registries, problems } = await loadExternalRegistries(empty);
+      expect(registries.size).toBe(0);
+      expect(problems).toEqual([]);
+    } finally {
+      await rm(empty, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Other registries that components depend on through namespaced
+ * registryDependencies, e.g. "@acme/weather-tool@^1".
+ *
+ * registry.config.json maps each namespace to that registry's base URL and
+ * a snapshot of its registry.json kept in this repo. Build and validate
+ * resolve references against the snapshots only, never the network, so a
+ * build is reproducible. Refresh them with:
+ *
+ *   bun run sync            # every registry in registry.config.json
+ *   bun run sync @acme      # just one
+ *
+ * Without a registry.config.json there are no other registries, and any
+ * namespaced reference fails to resolve.
+ */
+
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { join, dirname, relative } from "path";
+import { registryConfigSchema, registryIndexSchema } from "../src/schema.js";
+import { parseRegistryRef, resolveRegistryRef } from "../src/registry-ref.js";
+import {
+  formatFieldPath,
+  printProblems,
+  typeToDir,
+  type LoadedComponent,
+  type ManifestProblem,
+} from "./load-components.js";
+import type { ExternalDependency, RegistryIndex, RegistryIndexItem } from "../src/schema.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+
+export const REGISTRY_CONFIG_FILE = "registry.config.json";
+
+export interface ExternalRegistry {
+  namespace: string;
+  /** Base URL without a trailing slash */
+  url: string;
+  /** Snapshot of its registry.json, relative to the repo root */
+  snapshot: string;
+  /** Undefined when the snapshot is missing or invalid — reported as a problem */
+  index?: RegistryIndex;
+}
+
+export interface ExternalRegistries {
+  /** Namespace → registry */
+  registries: Map<string, ExternalRegistry>;
+  problems: ManifestProblem[];
+}
+
+export async function loadExternalRegistries(root: string = ROOT): Promise<ExternalRegistries> {
+  const registries = new Map<string, ExternalRegistry>();
+  const problems: ManifestProblem[] = [];
+  const file = REGISTRY_CONFIG_FILE;
+
+  const raw = await readFile(join(root, file), "utf-8").catch(() => undefined);
+  if (raw === undefined) return { registries, problems };
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (err) {
+    problems.push({ file, message: `invalid JSON: ${(err as Error).message}` });
+    return { registries, problems };
+  }
+
+  const config = registryConfigSchema.safeParse(json);
+  if (!config.success) {
+    for (const issue of config.error.issues) {
+      problems.push({ file, field: issue.path.length ? formatFieldPath(issue.path) : undefined, message: issue.message });
+    }
+    return { registries, problems };
+  }
+
+  for (const [namespace, { url, snapshot }] of Object.entries(config.data.registries)) {
+    const registry: ExternalRegistry = { namespace, url: url.replace(/\/+$/, ""), snapshot };
+    registries.set(namespace, registry);
+
+    const snapshotRaw = await readFile(join(root, snapshot), "utf-8").catch(() => undefined);
+    if (snapshotRaw === undefined) {
+      problems.push({ file: snapshot, message: `snapshot of ${namespace} is missing — run "bun run sync ${namespace}" to download it` });
+      continue;
+    }
+    try {
+      registry.index = registryIndexSchema.parse(JSON.parse(snapshotRaw));
+    } catch {
+      problems.push({ file: snapshot, message: `not a valid registry.json — run "bun run sync ${namespace}" to download it again` });
+    }
+  }
+
+  return { registries, problems };
+}
+
+export type ExternalRefResolution =
+  | { dependency: ExternalDependency; item: RegistryIndexItem }
+  | { error: string; hint?: string };
+
+// Where a namespaced reference resolves in the snapshots, pinned to a version
+export function resolveExternalRef(ref: string, registries: Map<string, ExternalRegistry>): ExternalRefResolution {
+  const parsed = parseRegistryRef(ref);
+  if (!parsed?.namespace) return { error: "is not a namespaced reference" };
+
+  const registry = registries.get(parsed.namespace);
+  if (!registry) {
+    return {
+      error: `"${parsed.namespace}" is not in ${REGISTRY_CONFIG_FILE}`,
+      hint: `add it under "registries" with the registry's url and a snapshot path, then run "bun run sync ${parsed.namespace}"`,
+    };
+  }
+  if (!registry.index) return { error: `the snapshot of ${parsed.namespace} could not be read` };
+
+  const resolved = resolveRegistryRef(parsed, registry.index);
+  if ("error" in resolved) {
+    return { error: resolved.error, hint: `${registry.snapshot} may be out of date — run "bun run sync ${parsed.namespace}"` };
+  }
+
+  const { item, version } = resolved;
+  return {
+    item,
+    dependency: {
+      registry: registry.url,
+      name: item.name,
+      type: item.type,
+      version,
+      url: `${registry.url}/${typeToDir[item.type]}/${item.name}@${version}.json`,
+      // The index only records the integrity of each component's latest version
+      integrity: version === item.version ? item.integrity : undefined,
+    },
+  };
+}
+
+export interface ExternalDependencies {
+  /** Component name → reference as written → where it resolved */
+  resolved: Map<string, Record<string, ExternalDependency>>;
+  problems: ManifestProblem[];
+}
+
+// Every component's namespaced registryDependencies, resolved. Problems are
+// located at the manifest entry that can't be resolved.
+export function resolveExternalDependencies(
+  root: string,
+  components: Array<Pick<LoadedComponent, "manifest" | "manifestPath">>,
+  registries: Map<string, ExternalRegistry>,
+): ExternalDependencies {
+  const resolved = new Map<string, Record<string, ExternalDependency>>();
+  const problems: ManifestProblem[] = [];
+
+  for (const { manifest, manifestPath } of components) {
+    const external: Record<string, ExternalDependency> = {};
+    for (const [i, ref] of (manifest.registryDependencies ?? []).entries()) {
+      if (!parseRegistryRef(ref)?.namespace) continue;
+      const resolution = resolveExternalRef(ref, registries);
+      if ("error" in resolution) {
+        problems.push({ file: relative(root, manifestPath), field: `registryDependencies[${i}]`, message: `can't be resolved — ${resolution.error}` });
+        continue;
+      }
+      external[ref] = resolution.dependency;
+    }
+    if (Object.keys(external).length > 0) resolved.set(manifest.name, external);
+  }
+
+  return { resolved, problems };
+}
+
+// Downloads a registry's registry.json into its snapshot
+export async function syncRegistry(root: string, registry: ExternalRegistry): Promise<RegistryIndex> {
+  const url = `${registry.url}/registry.json`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url} responded ${response.status} ${response.statusText}`);
+  const parsed = registryIndexSchema.safeParse(await response.json());
+  if (!parsed.success) throw new Error(`${url} is not a valid registry.json`);
+
+  await mkdir(dirname(join(root, registry.snapshot)), { recursive: true });
+  await writeFile(join(root, registry.snapshot), JSON.stringify(parsed.data, null, 2) + "\n");
+  return parsed.data;
+}
+
+if (import.meta.main) {
+  const { registries, problems } = await loadExternalRegistries();
+  // A missing or stale snapshot is what sync fixes — only config problems stop it
+  const configProblems = problems.filter((problem) => problem.file === REGISTRY_CONFIG_FILE);
+  if (configProblems.length > 0) {
+    printProblems(configProblems);
+    process.exit(1);
+  }
+
+  const requested = process.argv.slice(2);
+  const unknown = requested.filter((namespace) => !registries.has(namespace));
+  if (unknown.length > 0) {
+    console.error(`\x1b[31m✗\x1b[0m not in ${REGISTRY_CONFIG_FILE}: ${unknown.join(", ")}`);
+    process.exit(1);
+  }
+  if (registries.size === 0) {
+    console.log(`No registries in ${REGISTRY_CONFIG_FILE} — nothing to sync`);
+    process.exit(0);
+  }
+
+  let failed = 0;
+  for (const registry of registries.values()) {
+    if (requested.length > 0 && !requested.includes(registry.namespace)) continue;
+    try {
+      const index = await syncRegistry(ROOT, registry);
+      console.log(`✓ ${registry.namespace} → ${registry.snapshot} (${index.items.length} components)`);
+    } catch (err) {
+      failed++;
+      console.error(`\x1b[31m✗\x1b[0m ${registry.namespace}: ${(err as Error).message}`);
+    }
+  }
+  if (failed > 0) process.exit(1);
+}
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadComponents, formatProblem } from "./load-components.js";
+
+let root: string;
+
+async function addComponent(typeDir: string, name: string, manifest: unknown, files: string[] = []) {
+  const dir = join(root, "components", typeDir, name);
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, "manifest.json"), typeof manifest === "string" ? manifest : JSON.stringify(manifest));
+  for (const file of files) await writeFile(join(dir, file), "");
+}
+
+beforeAll(async () => {
+  root = await mkdtemp(join(tmpdir(), "kitn-components-"));
+  await addComponent("tools", "good-tool", {
+    name: "good-tool",
+    type: "kitn:tool",
+    description: "Fine",
+    version: "1.0.0",
+    files: ["good-tool.ts"],
+  }, ["good-tool.ts"]);
+  await addComponent("tools", "bad-tool", {
+    name: "bad-tool",
+    type: "kitn:tool",
+    description: "Typos",
+    version: "1.0.0",
+    dependancies: ["zod"],
+    files: ["bad-tool.ts", "helper.ts", "missing.ts"],
+  }, ["bad-tool.ts", "helper.ts"]);
+  await addComponent("agents", "broken-json", "{ not json");
+});
+
+afterAll(async () => {
+  await rm(root, { recursive: true, force: true });
+});
+
+describe("loadComponents", () => {
+  it("loads valid components and reports every problem with its location", async () => {
+    const { components, problems } = await loadComponents(root);
+
+    expect(components.map((c) => c.manifest.name)).toEqual(["good-tool"]);
+    expect(problems.map(formatProblem).sort()).toEqual([
+      expect.stringMatching(/^components\/agents\/broken-json\/manifest\.json: invalid JSON/),
+      'components/tools/bad-tool/manifest.json: dependancies — unknown key (did you mean "dependencies"?)',
+      "components/tools/bad-tool/manifest.json: files[2] — file does not exist",
+    ]);
+  });
+});
+
+describe("loadComponents with globs", () => {
+  let globRoot: string;
+
+  beforeAll(async () => {
+    globRoot = await mkdtemp(join(tmpdir(), "kitn-globs-"));
+    const dir = join(globRoot, "components", "package", "acme");
+    await mkdir(join(dir, "src", "util"), { recursive: true });
+    for (const file of ["src/index.ts", "src/util/strings.ts", "README.md"]) {
+      await writeFile(join(dir, file), "");
+    }
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name: "acme",
+      type: "kitn:package",
+      description: "Acme",
+      version: "1.0.0",
+      installDir: "lib/acme",
+      files: ["README.md", "src/**/*.ts", "src/index.ts"],
+    }));
+
+    const bad = join(globRoot, "components", "package", "bad-pkg");
+    await mkdir(bad, { recursive: true });
+    await writeFile(join(bad, "manifest.json"), JSON.stringify({
+      name: "bad-pkg",
+      type: "kitn:package",
+      description: "Bad",
+      version: "1.0.0",
+      files: ["src/**/*.ts", "../acme/src/index.ts"],
+    }));
+
+    for (const [name, installDir] of [["escaping-pkg", "lib/../../outside"], ["rooted-pkg", "/usr/lib/acme"]]) {
+      const escaping = join(globRoot, "components", "package", name);
+      await mkdir(escaping, { recursive: true });
+      await writeFile(join(escaping, "index.ts"), "");
+      await writeFile(join(escaping, "manifest.json"), JSON.stringify({
+        name,
+        type: "kitn:package",
+        description: "Escaping",
+        version: "1.0.0",
+        installDir,
+        files: ["index.ts"],
+      }));
+    }
+  });
+
+  afterAll(async () => {
+    await rm(globRoot, { recursive: true, force: true });
+  });
+
+  it("expands globs in order, keeps nested paths and drops duplicates", async () => {
+    const { components } = await loadComponents(globRoot);
+    expect(components.map((c) => [c.manifest.name, c.files])).toEqual([
+      ["acme", ["README.md", "src/index.ts", "src/util/strings.ts"]],
+    ]);
+  });
+
+  it("reports empty globs, escaping paths and packages without a safe installDir", async () => {
+    const { problems } = await loadComponents(globRoot);
+    expect(problems.map(formatProblem)).toEqual([
+      "components/package/bad-pkg/manifest.json: installDir — is required for kitn:package components",
+      'components/package/bad-pkg/manifest.json: files[0] — "src/**/*.ts" matches no files',
+      "components/package/bad-pkg/manifest.json: files[1] — must stay inside the component directory",
+      "components/package/escaping-pkg/manifest.json: installDir — must be a relative path inside the project",
+      "components/package/rooted-pkg/manifest.json: installDir — must be a relative path inside the project",
+    ]);
+  });
+});
+
+describe("loadComponents with skills", () => {
+  let skillRoot: string;
+
+  async function addSkill(name: string, markdown: string | null) {
+    const dir = join(skillRoot, "components", "skills", name);
+    await mkdir(dir, { recursive: true });
+    const file = markdown === null ? "skill.ts" : "SKILL.md";
+    await writeFile(join(dir, file), markdown ?? "");
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      type: "kitn:skill",
+      description: name,
+      version: "1.0.0",
+      files: [file],
+    }));
+  }
+
+  beforeAll(async () => {
+    skillRoot = await mkdtemp(join(tmpdir(), "kitn-skills-"));
+    await addSkill("good-skill", "---\nname: good-skill\ndescription: Fine\ntags: [demo]\n---\n# Good\n");
+    await addSkill("bare-skill", "# No frontmatter\n");
+    await addSkill("typo-skill", "---\nname: other-skill\ndescripton: Typo\n---\n");
+    await addSkill("yaml-skill", "---\nname: [unclosed\n---\n");
+    await addSkill("empty-skill", null);
+  });
+
+  afterAll(async () => {
+    await rm(skillRoot, { recursive: true, force: true });
+  });
+
+  it("checks frontmatter and reports problems at the markdown file", async () => {
+    const { components, problems } = await loadComponents(skillRoot);
+
+    expect(components.map((c) => c.manifest.name)).toEqual(["good-skill"]);
+    expect(problems.map(formatProblem)).toEqual([
+      "components/skills/bare-skill/SKILL.md: missing frontmatter — the file must start with a YAML block between --- lines",
+      "components/skills/empty-skill/manifest.json: files — kitn:skill components need a markdown (.md) file",
+      "components/skills/typo-skill/SKILL.md: description — is required",
+      'components/skills/typo-skill/SKILL.md: descripton — unknown key (did you mean "description"?)',
+      'components/skills/typo-skill/SKILL.md: name — "other-skill" does not match the manifest name "typo-skill"',
+      expect.stringMatching(/^components\/skills\/yaml-skill\/SKILL\.md: invalid frontmatter: .+[^:]$/),
+    ]);
+  });
+});
+
+describe("loadComponents with renames and deprecations", () => {
+  let lifecycleRoot: string;
+
+  async function addTool(name: string, extra: Record<string, unknown>) {
+    const dir = join(lifecycleRoot, "components", "tools", name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.ts`), "");
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      type: "kitn:tool",
+      description: name,
+      version: "1.1.0",
+      files: [`${name}.ts`],
+      ...extra,
+    }));
+  }
+
+  beforeAll(async () => {
+    lifecycleRoot = await mkdtemp(join(tmpdir(), "kitn-lifecycle-"));
+    await addTool("search-tool", { renamedFrom: ["web-search", "fetch-tool"] });
+    await addTool("fetch-tool", { deprecated: { message: "Use search", replacement: "web-search" } });
+    await addTool("lookup-tool", { renamedFrom: ["web-search"], deprecated: { message: "Gone", replacement: "nothing-tool" } });
+    await addTool("stale-tool", { yanked: { "1.1.0": "Broken", "1.0.0": "Leaks keys" } });
+  });
+
+  afterAll(async () => {
+    await rm(lifecycleRoot, { recursive: true, force: true });
+  });
+
+  it("checks renamedFrom, deprecated.replacement and yanked against the registry", async () => {
+    const { problems } = await loadComponents(lifecycleRoot);
+    expect(problems.map(formatProblem)).toEqual([
+      "components/tools/stale-tool/manifest.json: yanked.1.1.0 — is the current version — bump to a fixed version before yanking it",
+      'components/tools/search-tool/manifest.json: renamedFrom[0] — "web-search" is already claimed by lookup-tool',
+      'components/tools/search-tool/manifest.json: renamedFrom[1] — "fetch-tool" is still the name of components/tools/fetch-tool/manifest.json',
+      'components/tools/fetch-tool/manifest.json: deprecated.replacement — "web-search" was renamed — use "lookup-tool"',
+      'components/tools/lookup-tool/manifest.json: deprecated.replacement — "nothing-tool" is not a component in this registry',
+    ]);
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Loads and validates every components/<type>/<name>/manifest.json.
+ *
+ * Shared by build, validate, stage and bump so they all agree on what a
+ * valid manifest is. Problems are collected across every component rather
+ * than thrown on the first, and located by file and field:
+ *
+ *   components/tools/foo/manifest.json: files[2] — file does not exist
+ *
+ * `files` entries may be globs (e.g. "src/**\/*.ts"); they are expanded
+ * into `LoadedComponent.files`, which every consumer uses instead of the
+ * raw manifest list.
+ *
+ * Skills are also checked for valid frontmatter in their markdown file,
+ * with problems located at that file:
+ *
+ *   components/skills/foo/README.md: description — is required
+ *
+ * Once every manifest is loaded, `renamedFrom` and `deprecated.replacement`
+ * are checked against the other components' names.
+ */
+
+import { readdir, readFile, access } from "fs/promises";
+import { join, relative, isAbsolute, normalize, sep } from "path";
+import type { ZodIssue } from "zod";
+import { manifestSchema, skillMetadataSchema } from "../src/schema.js";
+import { parseFrontmatter } from "../src/frontmatter.js";
+import { findSkillFile } from "../src/skill.js";
+import type { ComponentType, Manifest } from "../src/schema.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+
+export const typeToDir: Record<ComponentType, string> = {
+  "kitn:agent": "agents",
+  "kitn:tool": "tools",
+  "kitn:skill": "skills",
+  "kitn:storage": "storage",
+  "kitn:package": "package",
+  "kitn:cron": "crons",
+};
+
+export const componentTypeDirs = Object.values(typeToDir);
+
+export interface LoadedComponent {
+  manifest: Manifest;
+  /** Type directory, e.g. "tools" */
+  typeDir: string;
+  /** Absolute path of the component directory */
+  dir: string;
+  /** Absolute path of manifest.json */
+  manifestPath: string;
+  /** `files` with globs expanded — relative to `dir`, forward slashes, nested paths kept */
+  files: string[];
+}
+
+export interface ManifestProblem {
+  /** Path relative to the repo root, e.g. components/tools/foo/manifest.json */
+  file: string;
+  /** Field path, e.g. files[2] — omitted for whole-file problems */
+  field?: string;
+  message: string;
+}
+
+export interface LoadResult {
+  components: LoadedComponent[];
+  problems: ManifestProblem[];
+}
+
+export async function loadComponents(root: string = ROOT): Promise<LoadResult> {
+  const componentsDir = join(root, "components");
+  const components: LoadedComponent[] = [];
+  const problems: ManifestProblem[] = [];
+  // Maps component name → manifest file that first declared it
+  const seenNames = new Map<string, string>();
+
+  for (const typeDir of componentTypeDirs) {
+    const dir = join(componentsDir, typeDir);
+    let entries: string[];
+    try {
+      entries = (await readdir(dir)).sort();
+    } catch {
+      continue;
+    }
+
+    for (const entry of entries) {
+      const componentDir = join(dir, entry);
+      const manifestPath = join(componentDir, "manifest.json");
+      const file = relative(root, manifestPath);
+
+      let manifestRaw: string;
+      try {
+        manifestRaw = await readFile(manifestPath, "utf-8");
+      } catch {
+        // Not a component directory (or a stray file)
+        continue;
+      }
+
+      let json: unknown;
+      try {
+        json = JSON.parse(manifestRaw);
+      } catch (err) {
+        problems.push({ file, message: `invalid JSON: ${(err as Error).message}` });
+        continue;
+      }
+
+      const before = problems.length;
+      const parsed = manifestSchema.safeParse(json);
+      if (!parsed.success) {
+        for (const issue of parsed.error.issues) {
+          problems.push(...issueToProblems(file, issue));
+        }
+      }
+
+      // The remaining checks also run on manifests that failed the schema,
+      // as far as their fields allow, so every problem is reported at once
+      const raw = (typeof json === "object" && json !== null ? json : {}) as Record<string, unknown>;
+
+      const expectedDir = typeToDir[raw.type as ComponentType];
+      if (expectedDir && expectedDir !== typeDir) {
+        problems.push({
+          file,
+          field: "type",
+          message: `"${raw.type}" components belong in components/${expectedDir}/, not components/${typeDir}/`,
+        });
+      }
+
+      if (typeof raw.name === "string") {
+        const previous = seenNames.get(raw.name);
+        if (previous) {
+          problems.push({ file, field: "name", message: `"${raw.name}" is already used by ${previous}` });
+        } else {
+          seenNames.set(raw.name, file);
+        }
+      }
+
+      // A yanked current version would leave name.json serving what distTags skip
+      if (typeof raw.version === "string" && typeof raw.yanked === "object" && raw.yanked !== null && raw.version in raw.yanked) {
+        problems.push({
+          file,
+          field: `yanked.${raw.version}`,
+          message: "is the current version — bump to a fixed version before yanking it",
+        });
+      }
+
+      if (raw.type === "kitn:package" && !raw.installDir) {
+        problems.push({ file, field: "installDir", message: "is required for kitn:package components" });
+      }
+      // Installs (and stage) write under installDir, so it may not leave the project
+      if (typeof raw.installDir === "string" && (isAbsolute(raw.installDir) || normalize(raw.installDir).split(sep).includes(".."))) {
+        problems.push({ file, field: "installDir", message: "must be a relative path inside the project" });
+      }
+
+      const files: string[] = [];
+      if (Array.isArray(raw.files)) {
+        for (const [i, entry] of raw.files.entries()) {
+          if (typeof entry !== "string" || !entry) continue;
+          const field = `files[${i}]`;
+
+          if (isAbsolute(entry) || normalize(entry).split(sep).includes("..")) {
+            problems.push({ file, field, message: "must stay inside the component directory" });
+            continue;
+          }
+
+          if (isGlob(entry)) {
+            const matches = await expandGlob(componentDir, entry);
+            if (matches.length === 0) {
+              problems.push({ file, field, message: `"${entry}" matches no files` });
+            }
+            files.push(...matches.filter((match) => !files.includes(match)));
+            continue;
+          }
+
+          try {
+            await access(join(componentDir, entry));
+          } catch {
+            problems.push({ file, field, message: "file does not exist" });
+            continue;
+          }
+          const path = normalize(entry).split(sep).join("/");
+          if (!files.includes(path)) files.push(path);
+        }
+      }
+
+      if (raw.type === "kitn:skill" && problems.length === before) {
+        problems.push(...(await skillProblems(root, componentDir, files, raw.name)));
+      }
+
+      if (parsed.success && problems.length === before) {
+        components.push({ manifest: parsed.data, typeDir, dir: componentDir, manifestPath, files });
+      }
+    }
+  }
+
+  problems.push(...lifecycleProblems(root, components, seenNames));
+  return { components, problems };
+}
+
+export function formatProblem(problem: ManifestProblem): string {
+  return problem.field
+    ? `${problem.file}: ${problem.field} — ${problem.message}`
+    : `${problem.file}: ${problem.message}`;
+}
+
+export function printProblems(problems: ManifestProblem[]): void {
+  for (const problem of problems) {
+    console.error(`\x1b[31m✗\x1b[0m ${formatProblem(problem)}`);
+  }
+  if (problems.length > 0) {
+    console.error(`\n\x1b[31m✗ ${problems.length} manifest problem(s) found\x1b[0m`);
+  }
+}
+
+// Print every problem and exit non-zero. No-op when there are none.
+export function exitOnProblems(problems: ManifestProblem[]): void {
+  if (problems.length === 0) return;
+  printProblems(problems);
+  process.exit(1);
+}
+
+// Formats a zod path the way it would be written in JS: files[2], envVars.API_KEY
+export function formatFieldPath(path: Array<string | number>): string {
+  return path
+    .map((segment, i) => (typeof segment === "number" ? `[${segment}]` : i === 0 ? segment : `.${segment}`))
+    .join("");
+}
+
+// Renames and deprecations refer to other components, so they are checked
+// once every manifest is loaded
+function lifecycleProblems(root: string, components: LoadedComponent[], names: Map<string, string>): ManifestProblem[] {
+  const problems: ManifestProblem[] = [];
+  // Maps old name → component that was renamed from it
+  const renamedTo = new Map<string, string>();
+
+  for (const { manifest, manifestPath } of components) {
+    const file = relative(root, manifestPath);
+    for (const [i, oldName] of (manifest.renamedFrom ?? []).entries()) {
+      const field = `renamedFrom[${i}]`;
+      const current = names.get(oldName);
+      const claimed = renamedTo.get(oldName);
+      if (current) {
+        problems.push({ file, field, message: `"${oldName}" is still the name of ${current}` });
+      } else if (claimed && claimed !== manifest.name) {
+        problems.push({ file, field, message: `"${oldName}" is already claimed by ${claimed}` });
+      } else {
+        renamedTo.set(oldName, manifest.name);
+      }
+    }
+  }
+
+  for (const { manifest, manifestPath } of components) {
+    const replacement = manifest.deprecated?.replacement;
+    if (replacement === undefined) continue;
+    const file = relative(root, manifestPath);
+    const field = "deprecated.replacement";
+    if (replacement === manifest.name) {
+      problems.push({ file, field, message: "can't be the deprecated component itself" });
+    } else if (renamedTo.has(replacement)) {
+      problems.push({ file, field, message: `"${replacement}" was renamed — use "${renamedTo.get(replacement)}"` });
+    } else if (!names.has(replacement)) {
+      problems.push({ file, field, message: `"${replacement}" is not a component in this registry` });
+    }
+  }
+
+  return problems;
+}
+
+const knownKeys = Object.keys(manifestSchema.shape);
+
+function issueToProblems(file: string, issue: ZodIssue, keys: string[] = knownKeys): ManifestProblem[] {
+  const field = issue.path.length ? formatFieldPath(issue.path) : undefined;
+
+  if (issue.code === "unrecognized_keys") {
+    return issue.keys.map((key) => {
+      const suggestion = issue.path.length === 0 ? closestKey(key, keys) : undefined;
+      return {
+        file,
+        field: field ? `${field}.${key}` : key,
+        message: suggestion ? `unknown key (did you mean "${suggestion}"?)` : "unknown key",
+      };
+    });
+  }
+
+  if (issue.code === "invalid_type" && issue.received === "undefined") {
+    return [{ file, field, message: "is required" }];
+  }
+
+  return [{ file, field, message: issue.message }];
+}
+
+const skillKeys = Object.keys(skillMetadataSchema.shape);
+
+// Frontmatter problems in a skill's markdown file. Only runs once the
+// manifest itself is clean, so `files` is fully resolved.
+async function skillProblems(
+  root: string,
+  componentDir: string,
+  files: string[],
+  name: unknown,
+): Promise<ManifestProblem[]> {
+  const skillFile = findSkillFile(files);
+  if (!skillFile) {
+    const file = relative(root, join(componentDir, "manifest.json"));
+    return [{ file, field: "files", message: "kitn:skill components need a markdown (.md) file" }];
+  }
+
+  const file = relative(root, join(componentDir, skillFile));
+  let frontmatter: unknown;
+  try {
+    frontmatter = parseFrontmatter(await readFile(join(componentDir, skillFile), "utf-8")).frontmatter;
+  } catch (err) {
+    return [{ file, message: `invalid frontmatter: ${(err as Error).message.split("\n")[0].replace(/:$/, "")}` }];
+  }
+  if (frontmatter === undefined) {
+    return [{ file, message: "missing frontmatter — the file must start with a YAML block between --- lines" }];
+  }
+
+  const parsed = skillMetadataSchema.safeParse(frontmatter);
+  const problems = parsed.success ? [] : parsed.error.issues.flatMap((issue) => issueToProblems(file, issue, skillKeys));
+  const declared = (frontmatter as Record<string, unknown>).name;
+  if (typeof declared === "string" && typeof name === "string" && declared !== name) {
+    problems.push({ file, field: "name", message: `"${declared}" does not match the manifest name "${name}"` });
+  }
+  return problems;
+}
+
+function closestKey(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function isGlob(entry: string): boolean {
+  return /[*?[{]/.test(entry);
+}
+
+// Sorted matches for a glob, relative to the component directory. The
+// manifest itself is never a component file.
+async function expandGlob(componentDir: string, pattern: string): Promise<string[]> {
+  const matches: string[] = [];
+  for await (const match of new Bun.Glob(pattern).scan({ cwd: componentDir, onlyFiles: true })) {
+    const path = match.split(sep).join("/");
+    if (path !== "manifest.json") matches.push(path);
+  }
+  return matches.sort();
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { manifestSchema } from "../src/schema.js";
+import { loadComponents } from "./load-components.js";
+import { renderComponent, scaffoldComponent, scaffoldTypes, type ScaffoldType } from "./new-component.js";
+
+describe("renderComponent", () => {
+  for (const type of Object.keys(scaffoldTypes) as ScaffoldType[]) {
+    it(`renders a valid ${type} manifest with an initial changelog entry`, () => {
+      const { manifest, files } = renderComponent({ type, name: `my-${type}`, description: "Does things", date: "2025-06-01" });
+
+      expect(manifestSchema.safeParse(manifest).success).toBe(true);
+      expect(manifest.changelog).toEqual([{ version: "0.1.0", date: "2025-06-01", type: "initial", note: "Initial release" }]);
+      if (type !== "package") expect(Object.keys(files)).toEqual(manifest.files);
+    });
+  }
+
+  it("registers agents and tools under the component name", () => {
+    const agent = renderComponent({ type: "agent", name: "my-agent", description: "Greets" });
+    expect(agent.files["my-agent.ts"]).toContain(`registerAgent({\n  name: "my-agent",`);
+
+    const tool = renderComponent({ type: "tool", name: "weather-lookup", description: "Looks up weather" });
+    expect(tool.files["weather-lookup.ts"]).toContain("export const weatherLookup = tool({");
+    expect(tool.files["weather-lookup.ts"]).toContain(`registerTool({\n  name: "weather-lookup",`);
+    expect(tool.manifest.dependencies).toEqual(["ai", "zod"]);
+  });
+
+  it("registers crons with a valid default schedule", () => {
+    const { files } = renderComponent({ type: "cron", name: "nightly-sync", description: "Syncs" });
+    expect(files["nightly-sync.ts"]).toContain(`registerCron({\n  name: "nightly-sync",`);
+    expect(files["nightly-sync.ts"]).toContain(`schedule: "0 * * * *",`);
+  });
+
+  it("lays packages out under src/ with an installDir and path aliases", () => {
+    const { manifest, files } = renderComponent({ type: "package", name: "acme-utils", description: "Utils" });
+    expect(Object.keys(files)).toEqual(["src/index.ts"]);
+    expect(manifest.files).toEqual(["src/**/*.ts"]);
+    expect(manifest.installDir).toBe("lib/acme-utils");
+    expect(manifest.tsconfig).toEqual({
+      "@lib/acme-utils": ["./lib/acme-utils/src/index.ts"],
+      "@lib/acme-utils/*": ["./lib/acme-utils/src/*"],
+    });
+  });
+
+  it("exports a StorageProvider factory for storage", () => {
+    const { files } = renderComponent({ type: "storage", name: "redis-store", description: "Redis" });
+    expect(files["redis-store.ts"]).toContain("export function createRedisStore(");
+    expect(files["redis-store.ts"]).toContain("): StorageProvider {");
+  });
+
+  it("quotes skill descriptions that aren't plain YAML", () => {
+    const { files } = renderComponent({ type: "skill", name: "my-skill", description: "Tips: be brief" });
+    expect(files["README.md"]).toContain(`description: "Tips: be brief"`);
+  });
+});
+
+describe("scaffoldComponent", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-new-"));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("writes a component the loader accepts", async () => {
+    const dir = await scaffoldComponent({ type: "tool", name: "echo-tool", description: "Echo" }, root);
+    expect(dir).toBe(join(root, "components", "tools", "echo-tool"));
+    expect(await readFile(join(dir, "echo-tool.ts"), "utf-8")).toContain("registerTool");
+
+    const { components, problems } = await loadComponents(root);
+    expect(problems).toEqual([]);
+    expect(components.map((c) => c.manifest.name)).toEqual(["echo-tool"]);
+  });
+
+  it("writes nested package files", async () => {
+    const dir = await scaffoldComponent({ type: "package", name: "acme-utils", description: "Utils" }, root);
+    expect(await readFile(join(dir, "src", "index.ts"), "utf-8")).toContain("export function hello()");
+
+    const { components, problems } = await loadComponents(root);
+    expect(problems).toEqual([]);
+    expect(components.find((c) => c.manifest.name === "acme-utils")?.files).toEqual(["src/index.ts"]);
+  });
+
+  it("rejects names already used by another component, of any type", async () => {
+    await expect(scaffoldComponent({ type: "agent", name: "echo-tool", description: "Echo" }, root))
+      .rejects.toThrow(`"echo-tool" is already used by components/tools/echo-tool/manifest.json`);
+  });
+
+  it("rejects names of component directories whose manifest doesn't load", async () => {
+    await mkdir(join(root, "components", "storage", "broken-store"), { recursive: true });
+    await writeFile(join(root, "components", "storage", "broken-store", "manifest.json"), "{");
+
+    await expect(scaffoldComponent({ type: "tool", name: "broken-store", description: "Store" }, root))
+      .rejects.toThrow(`"broken-store" is already used by components/storage/broken-store`);
+  });
+
+  it("rejects invalid names and empty descriptions together", async () => {
+    await expect(scaffoldComponent({ type: "agent", name: "My Agent", description: "" }, root))
+      .rejects.toThrow("name — must be lowercase letters, digits and dashes\ndescription — must not be empty");
+  });
+});
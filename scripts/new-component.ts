@@ -0,0 +1,316 @@
+import * as p from "@clack/prompts";
+import pc from "picocolors";
+import { mkdir, writeFile, access, readdir } from "fs/promises";
+import { join, relative, dirname } from "path";
+import { manifestSchema } from "../src/schema.js";
+import type { ComponentType, Manifest } from "../src/schema.js";
+import { loadComponents, typeToDir, componentTypeDirs, formatFieldPath } from "./load-components.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+
+// Types `new` can scaffold, keyed by the short name accepted by --type
+export const scaffoldTypes = {
+  agent: "kitn:agent",
+  tool: "kitn:tool",
+  skill: "kitn:skill",
+  storage: "kitn:storage",
+  cron: "kitn:cron",
+  package: "kitn:package",
+} as const satisfies Record<string, ComponentType>;
+
+export type ScaffoldType = keyof typeof scaffoldTypes;
+
+export interface ScaffoldOptions {
+  type: ScaffoldType;
+  name: string;
+  description: string;
+  categories?: string[];
+  /** Changelog date for the initial entry, YYYY-MM-DD (defaults to today) */
+  date?: string;
+}
+
+export interface RenderedComponent {
+  manifest: Manifest;
+  /** File name (relative to the component directory) → content */
+  files: Record<string, string>;
+}
+
+// Manifest and source template for a new component — nothing is written
+export function renderComponent(options: ScaffoldOptions): RenderedComponent {
+  const { type, name, description } = options;
+  const date = options.date ?? new Date().toISOString().split("T")[0];
+  const fileName = type === "skill" ? "README.md" : type === "package" ? "src/index.ts" : `${name}.ts`;
+
+  const manifest: Manifest = {
+    name,
+    type: scaffoldTypes[type],
+    description,
+    version: "0.1.0",
+    ...(type === "tool" ? { dependencies: ["ai", "zod"] } : {}),
+    files: [type === "package" ? "src/**/*.ts" : fileName],
+    ...(type === "package" ? packageInstall(name) : {}),
+    ...(options.categories?.length ? { categories: options.categories } : {}),
+    changelog: [{ version: "0.1.0", date, type: "initial", note: "Initial release" }],
+  };
+
+  return { manifest, files: { [fileName]: sourceTemplates[type](name, description) } };
+}
+
+// Validates the options against the manifest schema and existing components,
+// then writes components/<type>/<name>/. Throws with every problem found.
+export async function scaffoldComponent(options: ScaffoldOptions, root: string = ROOT): Promise<string> {
+  const { manifest, files } = renderComponent(options);
+  const problems: string[] = [];
+
+  const parsed = manifestSchema.safeParse(manifest);
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      problems.push(`${formatFieldPath(issue.path)} — ${issue.message}`);
+    }
+  }
+
+  const usedBy = (await takenNames(root)).get(options.name);
+  if (usedBy) {
+    problems.push(`name — "${options.name}" is already used by ${usedBy}`);
+  }
+
+  const dir = join(root, "components", typeToDir[manifest.type], options.name);
+  if (!usedBy && (await exists(dir))) {
+    problems.push(`${relative(root, dir)} already exists`);
+  }
+
+  if (problems.length > 0) throw new Error(problems.join("\n"));
+
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, "manifest.json"), JSON.stringify(manifest, null, 2) + "\n");
+  for (const [fileName, content] of Object.entries(files)) {
+    await mkdir(dirname(join(dir, fileName)), { recursive: true });
+    await writeFile(join(dir, fileName), content);
+  }
+  return dir;
+}
+
+// Names a new component can't take, mapped to where each is used: every
+// component directory, of any type, and every manifest name. A directory
+// whose manifest doesn't load still owns its name.
+export async function takenNames(root: string = ROOT): Promise<Map<string, string>> {
+  const taken = new Map<string, string>();
+  for (const typeDir of componentTypeDirs) {
+    const entries = await readdir(join(root, "components", typeDir), { withFileTypes: true }).catch(() => []);
+    for (const entry of entries) {
+      if (entry.isDirectory()) taken.set(entry.name, `components/${typeDir}/${entry.name}`);
+    }
+  }
+  const { components } = await loadComponents(root);
+  for (const { manifest, manifestPath } of components) {
+    taken.set(manifest.name, relative(root, manifestPath));
+  }
+  return taken;
+}
+
+const sourceTemplates: Record<ScaffoldType, (name: string, description: string) => string> = {
+  agent: (name, description) => `import { registerAgent } from "@kitn/core";
+
+const SYSTEM_PROMPT = \`You are a helpful assistant.\`;
+
+registerAgent({
+  name: "${name}",
+  description: ${JSON.stringify(description)},
+  system: SYSTEM_PROMPT,
+  tools: {},
+});
+`,
+
+  tool: (name, description) => `import { registerTool } from "@kitn/core";
+import { tool } from "ai";
+import { z } from "zod";
+
+export const ${camelCase(name)} = tool({
+  description: ${JSON.stringify(description)},
+  inputSchema: z.object({
+    input: z.string().describe("Input parameter"),
+  }),
+  execute: async ({ input }) => {
+    return { result: input };
+  },
+});
+
+registerTool({
+  name: "${name}",
+  description: ${JSON.stringify(description)},
+  inputSchema: z.object({ input: z.string() }),
+  tool: ${camelCase(name)},
+});
+`,
+
+  skill: (name, description) => `---
+name: ${name}
+description: ${yamlString(description)}
+---
+
+# ${titleCase(name)}
+
+Instructions for the agent.
+`,
+
+  cron: (name, description) => `import { registerCron } from "@kitn/core";
+
+registerCron({
+  name: "${name}",
+  description: ${JSON.stringify(description)},
+  schedule: "0 * * * *",
+  handler: async () => {
+    // TODO: the work to run on each tick
+  },
+});
+`,
+
+  package: (name, description) => `// ${description}
+// Import from other components as "@lib/${name}" (see tsconfig in manifest.json)
+
+export function hello(): string {
+  return "Hello from ${name}";
+}
+`,
+
+  storage: (name) => `import type { StorageProvider } from "@kitn/core";
+
+export function create${pascalCase(name)}(config?: Record<string, unknown>): StorageProvider {
+  // TODO: implement your storage provider
+  // See https://kitn.dev/docs/storage for the StorageProvider interface
+  throw new Error("Not implemented");
+}
+`,
+};
+
+// Packages install under lib/<name> and get an @lib/<name> path alias
+function packageInstall(name: string): Pick<Manifest, "installDir" | "tsconfig"> {
+  return {
+    installDir: `lib/${name}`,
+    tsconfig: {
+      [`@lib/${name}`]: [`./lib/${name}/src/index.ts`],
+      [`@lib/${name}/*`]: [`./lib/${name}/src/*`],
+    },
+  };
+}
+
+function camelCase(name: string): string {
+  return name.replace(/-([a-z0-9])/g, (_, c: string) => c.toUpperCase());
+}
+
+function pascalCase(name: string): string {
+  const camel = camelCase(name);
+  return camel.charAt(0).toUpperCase() + camel.slice(1);
+}
+
+function titleCase(name: string): string {
+  return name.split("-").map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join(" ");
+}
+
+// Plain YAML scalar when safe, otherwise double-quoted (JSON strings are valid YAML)
+function yamlString(value: string): string {
+  return /^[\w(][^:#"'\n]*$/.test(value) ? value : JSON.stringify(value);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+if (import.meta.main) {
+  const { parseArgs } = await import("util");
+
+  const { values: flags, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      type: { type: "string" },
+      name: { type: "string" },
+      description: { type: "string" },
+      category: { type: "string", multiple: true },
+    },
+    allowPositionals: true,
+  });
+
+  p.intro(pc.bold("kitn new"));
+
+  const typeNames = Object.keys(scaffoldTypes) as ScaffoldType[];
+  // Accept both "tool" and "kitn:tool"
+  const typeArg = flags.type?.replace(/^kitn:/, "");
+  let type: ScaffoldType;
+
+  if (typeArg) {
+    if (!typeNames.includes(typeArg as ScaffoldType)) {
+      p.log.error(`Unknown type ${pc.bold(flags.type!)}. Expected one of: ${typeNames.join(", ")}`);
+      process.exit(1);
+    }
+    type = typeArg as ScaffoldType;
+  } else {
+    const selected = await p.select({
+      message: "Component type?",
+      options: typeNames.map((t) => ({ value: t, label: t })),
+    });
+
+    if (p.isCancel(selected)) {
+      p.cancel("Cancelled.");
+      process.exit(0);
+    }
+    type = selected;
+  }
+
+  const taken = await takenNames();
+  const checkName = (value: string) => {
+    const result = manifestSchema.shape.name.safeParse(value);
+    if (!result.success) return `Name ${result.error.issues[0].message}.`;
+    if (taken.has(value)) return `"${value}" is already used by ${taken.get(value)}.`;
+  };
+
+  let name = flags.name ?? positionals[0];
+  if (name === undefined) {
+    const entered = await p.text({
+      message: "Component name?",
+      placeholder: `my-${type}`,
+      validate: checkName,
+    });
+
+    if (p.isCancel(entered)) {
+      p.cancel("Cancelled.");
+      process.exit(0);
+    }
+    name = entered;
+  }
+
+  let description = flags.description;
+  if (description === undefined) {
+    const entered = await p.text({
+      message: "Description?",
+      validate: (value) => {
+        if (!value.trim()) return "A description is required.";
+      },
+    });
+
+    if (p.isCancel(entered)) {
+      p.cancel("Cancelled.");
+      process.exit(0);
+    }
+    description = entered;
+  }
+
+  try {
+    const dir = await scaffoldComponent({
+      type,
+      name,
+      description: description.trim(),
+      categories: flags.category,
+    });
+    p.log.success(`Created ${pc.bold(relative(ROOT, dir))}/`);
+  } catch (err) {
+    p.log.error((err as Error).message);
+    process.exit(1);
+  }
+
+  p.outro(`Edit the source, then run ${pc.bold("bun run build")}.`);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { formatProblem } from "./load-components.js";
+import { aggregateChanges, parseChangeFile, readChanges } from "./release.js";
+
+describe("parseChangeFile", () => {
+  it("reads release types from the frontmatter and the note from the body", () => {
+    const { change, problems } = parseChangeFile(".changes/units.md", "---\nweather-tool: minor\n---\n\nAdds units\n");
+    expect(problems).toEqual([]);
+    expect(change).toEqual({ file: ".changes/units.md", releases: { "weather-tool": "minor" }, note: "Adds units" });
+  });
+
+  it("reports missing frontmatter, bad release types and empty notes", () => {
+    const problems = (source: string) => parseChangeFile(".changes/x.md", source).problems.map(formatProblem);
+    expect(problems("Adds units\n")).toEqual([
+      ".changes/x.md: missing frontmatter — list components and release types between --- lines",
+    ]);
+    expect(problems("---\nweather-tool: huge\n---\n")).toEqual([
+      expect.stringMatching(/^\.changes\/x\.md: weather-tool — Invalid enum value/),
+      ".changes/x.md: needs a note below the frontmatter",
+    ]);
+    expect(problems("---\n{}\n---\nNote\n")).toEqual([".changes/x.md: must name at least one component"]);
+  });
+});
+
+describe("aggregateChanges", () => {
+  it("takes the highest release type per component and collects the notes", () => {
+    const requests = aggregateChanges([
+      { file: "a.md", releases: { "weather-tool": "patch", "weather-agent": "patch" }, note: "Fixes rounding" },
+      { file: "b.md", releases: { "weather-tool": "minor" }, note: "Adds units" },
+      { file: "c.md", releases: { "weather-tool": "patch" }, note: "Fixes rounding" },
+    ]);
+    expect(requests).toEqual([
+      { name: "weather-agent", type: "patch", change: "fix", note: "Fixes rounding" },
+      { name: "weather-tool", type: "minor", change: "feature", note: "Fixes rounding\nAdds units" },
+    ]);
+  });
+});
+
+describe("readChanges", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-changes-"));
+    await mkdir(join(root, ".changes"));
+    await writeFile(join(root, ".changes", "README.md"), "# Pending changes\n");
+    await writeFile(join(root, ".changes", "b-units.md"), "---\nweather-tool: minor\n---\nAdds units\n");
+    await writeFile(join(root, ".changes", "a-broken.md"), "no frontmatter\n");
+    await writeFile(join(root, ".changes", "notes.txt"), "ignored\n");
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("reads every change file except the README", async () => {
+    const { changes, problems } = await readChanges(root);
+    expect(changes.map((c) => c.file)).toEqual([".changes/b-units.md"]);
+    expect(problems.map((p) => p.file)).toEqual([".changes/a-broken.md"]);
+  });
+
+  it("finds nothing when .changes/ doesn't exist", async () => {
+    expect(await readChanges(join(root, "missing"))).toEqual({ changes: [], problems: [] });
+  });
+});
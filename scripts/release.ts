@@ -0,0 +1,201 @@
+/**
+ * Applies pending change files from .changes/ and rebuilds the registry.
+ *
+ * Instead of bumping manifests in every PR (where concurrent PRs conflict
+ * on `version` and `changelog`), contributors add a change file naming the
+ * components it affects, each with a release type, and a note:
+ *
+ *   .changes/units-support.md
+ *   ---
+ *   weather-tool: minor
+ *   weather-agent: patch
+ *   ---
+ *
+ *   Adds a units option
+ *
+ * `bun run release` takes the highest release type per component across
+ * all change files, bumps it with `bumpVersion`, writes one changelog entry
+ * with every note, deletes the consumed files and rebuilds. Exit codes
+ * match bump: 0 released, 1 nothing written, 2 rebuild failed.
+ */
+
+import * as p from "@clack/prompts";
+import pc from "picocolors";
+import { readdir, readFile, rm } from "fs/promises";
+import { join, relative } from "path";
+import { z } from "zod";
+import { parseFrontmatter, type ParsedFrontmatter } from "../src/frontmatter.js";
+import {
+  cascadeBumps,
+  cascadeModes,
+  defaultChangeType,
+  exitCodes,
+  formatBumpDiff,
+  planBumps,
+  rebuildRegistry,
+  writeBumps,
+} from "./bump-version.js";
+import type { BumpRequest, CascadeMode } from "./bump-version.js";
+import { formatProblem, loadComponents, type ManifestProblem } from "./load-components.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+
+// Lowest to highest — prereleases are cut with `bun run bump` instead
+const changeReleaseTypes = ["patch", "minor", "major"] as const;
+type ChangeReleaseType = (typeof changeReleaseTypes)[number];
+
+const changeFrontmatterSchema = z
+  .record(z.enum(changeReleaseTypes))
+  .refine((value) => Object.keys(value).length > 0, "must name at least one component");
+
+export interface ChangeFile {
+  /** Path relative to the repo root, e.g. .changes/units-support.md */
+  file: string;
+  /** Component name → release type */
+  releases: Record<string, ChangeReleaseType>;
+  note: string;
+}
+
+export function parseChangeFile(file: string, source: string): { change?: ChangeFile; problems: ManifestProblem[] } {
+  let parsed: ParsedFrontmatter;
+  try {
+    parsed = parseFrontmatter(source);
+  } catch (err) {
+    return { problems: [{ file, message: `invalid frontmatter: ${(err as Error).message.split("\n")[0].replace(/:$/, "")}` }] };
+  }
+  if (parsed.frontmatter === undefined) {
+    return { problems: [{ file, message: "missing frontmatter — list components and release types between --- lines" }] };
+  }
+
+  const problems: ManifestProblem[] = [];
+  const releases = changeFrontmatterSchema.safeParse(parsed.frontmatter);
+  if (!releases.success) {
+    for (const issue of releases.error.issues) {
+      problems.push({ file, field: issue.path.length ? issue.path.join(".") : undefined, message: issue.message });
+    }
+  }
+  const note = parsed.body.trim();
+  if (!note) problems.push({ file, message: "needs a note below the frontmatter" });
+
+  if (!releases.success || problems.length > 0) return { problems };
+  return { change: { file, releases: releases.data, note }, problems };
+}
+
+// Every change file in .changes/, sorted by name. README.md explains the
+// format and is not a change.
+export async function readChanges(root: string = ROOT): Promise<{ changes: ChangeFile[]; problems: ManifestProblem[] }> {
+  const dir = join(root, ".changes");
+  let entries: string[];
+  try {
+    entries = (await readdir(dir)).sort();
+  } catch {
+    return { changes: [], problems: [] };
+  }
+
+  const changes: ChangeFile[] = [];
+  const problems: ManifestProblem[] = [];
+  for (const entry of entries) {
+    if (!entry.endsWith(".md") || entry === "README.md") continue;
+    const file = relative(root, join(dir, entry));
+    const result = parseChangeFile(file, await readFile(join(dir, entry), "utf-8"));
+    if (result.change) changes.push(result.change);
+    problems.push(...result.problems);
+  }
+  return { changes, problems };
+}
+
+// One bump per component: the highest release type across its change
+// files, with their notes one per line in file order
+export function aggregateChanges(changes: ChangeFile[]): BumpRequest[] {
+  const byName = new Map<string, { type: ChangeReleaseType; notes: string[] }>();
+  for (const { releases, note } of changes) {
+    for (const [name, type] of Object.entries(releases)) {
+      const current = byName.get(name);
+      if (!current) {
+        byName.set(name, { type, notes: [note] });
+        continue;
+      }
+      if (changeReleaseTypes.indexOf(type) > changeReleaseTypes.indexOf(current.type)) current.type = type;
+      if (!current.notes.includes(note)) current.notes.push(note);
+    }
+  }
+
+  return [...byName]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, { type, notes }]) => ({ name, type, change: defaultChangeType(type), note: notes.join("\n") }));
+}
+
+if (import.meta.main) {
+  const { parseArgs } = await import("util");
+
+  const { values: flags } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      cascade: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      "no-build": { type: "boolean", default: false },
+    },
+  });
+
+  p.intro(pc.bold("kitn release"));
+
+  const { changes, problems } = await readChanges();
+  if (problems.length > 0) {
+    p.log.error(`Fix these change files first:\n${problems.map(formatProblem).join("\n")}`);
+    process.exit(exitCodes.invalid);
+  }
+  if (changes.length === 0) {
+    p.outro("No pending changes in .changes/ — nothing to release.");
+    process.exit(exitCodes.ok);
+  }
+
+  const cascade = flags.cascade as CascadeMode | undefined;
+  if (cascade !== undefined && !cascadeModes.includes(cascade)) {
+    p.log.error(`Unknown --cascade ${pc.bold(cascade)}. Expected one of: ${cascadeModes.join(", ")}`);
+    process.exit(exitCodes.invalid);
+  }
+
+  // Dependents without a change file of their own are listed, and bumped with --cascade
+  let requests = aggregateChanges(changes);
+  const manifests = (await loadComponents(ROOT)).components.map((c) => c.manifest);
+  const dependents = cascadeBumps(manifests, requests, cascade);
+  if (cascade) {
+    requests = [...requests, ...dependents];
+  } else if (dependents.length > 0) {
+    p.log.warn(`Dependents not released (pass --cascade patch|match to include them): ${dependents.map((d) => d.name).join(", ")}`);
+  }
+  const planned = await planBumps(requests);
+  if (planned.problems.length > 0) {
+    p.log.error(`Nothing was released:\n${planned.problems.join("\n")}`);
+    process.exit(exitCodes.invalid);
+  }
+
+  for (const bump of planned.bumps) {
+    const request = requests.find((r) => r.name === bump.name)!;
+    const summary = `${pc.bold(bump.name)}: ${pc.dim(bump.from)} → ${pc.green(bump.to)} ${pc.dim(`(${request.type})`)}`;
+    p.log.info(flags["dry-run"] ? `${summary}\n${formatBumpDiff(bump)}` : summary);
+  }
+
+  if (flags["dry-run"]) {
+    p.outro(`Dry run — would consume ${changes.length} change file(s).`);
+    process.exit(exitCodes.ok);
+  }
+
+  await writeBumps(planned.bumps);
+  for (const { file } of changes) await rm(join(ROOT, file));
+  p.log.success(`Released ${planned.bumps.length} component(s), consumed ${changes.length} change file(s).`);
+
+  if (!flags["no-build"]) {
+    const s = p.spinner();
+    s.start("Building registry...");
+    const { ok, output } = await rebuildRegistry();
+    if (!ok) {
+      s.stop(pc.red("Build failed."));
+      p.log.error(output);
+      process.exit(exitCodes.buildFailed);
+    }
+    s.stop("Registry rebuilt.");
+  }
+
+  p.outro("Done!");
+}
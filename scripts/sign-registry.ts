@@ -0,0 +1,89 @@
+/**
+ * Signs every JSON file in r/ with the registry's ed25519 key and writes
+ * the detached signatures to r/signatures.json.
+ *
+ * Run: bun run sign                 (also runs at the end of `bun run build`)
+ *      bun run sign --generate-key  (creates a new keypair)
+ *
+ * The private key is read from the KITN_SIGNING_KEY env var (PEM contents),
+ * or from the file named by KITN_SIGNING_KEY_FILE, defaulting to
+ * .keys/signing-key.pem. Never commit the private key.
+ */
+
+import { readdir, readFile, writeFile, mkdir, access } from "fs/promises";
+import { join, dirname, resolve } from "path";
+import {
+  SIGNATURE_ALGORITHM,
+  SIGNATURE_MANIFEST_FILE,
+  generateSigningKeyPair,
+  publicKeyFromPrivateKey,
+  signBytes,
+} from "../src/signing.js";
+import type { SignatureManifest } from "../src/schema.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+export const DEFAULT_KEY_FILE = ".keys/signing-key.pem";
+
+// Returns the PEM private key, or undefined when signing is not configured.
+export async function resolveSigningKey(env: Record<string, string | undefined> = process.env): Promise<string | undefined> {
+  if (env.KITN_SIGNING_KEY) return env.KITN_SIGNING_KEY;
+
+  const keyFile = resolve(ROOT, env.KITN_SIGNING_KEY_FILE ?? DEFAULT_KEY_FILE);
+  try {
+    return await readFile(keyFile, "utf-8");
+  } catch {
+    if (env.KITN_SIGNING_KEY_FILE) throw new Error(`Signing key file not found: ${keyFile}`);
+    return undefined;
+  }
+}
+
+export async function signRegistry(outputDir: string, privateKeyPem: string): Promise<SignatureManifest> {
+  const files = (await readdir(outputDir, { recursive: true }))
+    .filter((f) => f.endsWith(".json") && f !== SIGNATURE_MANIFEST_FILE)
+    .sort();
+
+  const signatures: Record<string, string> = {};
+  for (const relPath of files) {
+    signatures[relPath] = signBytes(await readFile(join(outputDir, relPath)), privateKeyPem);
+  }
+
+  const manifest: SignatureManifest = {
+    $schema: "https://kitn.dev/schema/signatures.json",
+    algorithm: SIGNATURE_ALGORITHM,
+    publicKey: publicKeyFromPrivateKey(privateKeyPem),
+    signatures,
+  };
+  await writeFile(join(outputDir, SIGNATURE_MANIFEST_FILE), JSON.stringify(manifest, null, 2) + "\n");
+  return manifest;
+}
+
+// CLI entry point — run with `bun run scripts/sign-registry.ts`
+if (import.meta.main) {
+  if (process.argv.includes("--generate-key")) {
+    const keyFile = resolve(ROOT, process.env.KITN_SIGNING_KEY_FILE ?? DEFAULT_KEY_FILE);
+    try {
+      await access(keyFile);
+      console.error(`✗ ${keyFile} already exists — remove it first to generate a new key`);
+      process.exit(1);
+    } catch {
+      // No existing key, safe to write
+    }
+
+    const { privateKey, publicKey } = generateSigningKeyPair();
+    await mkdir(dirname(keyFile), { recursive: true });
+    await writeFile(keyFile, privateKey, { mode: 0o600 });
+    console.log(`✓ Wrote private key to ${keyFile}`);
+    console.log(`\nPublic key (share this so consumers can pin it):\n\n  ${publicKey}\n`);
+    process.exit(0);
+  }
+
+  const privateKey = await resolveSigningKey();
+  if (!privateKey) {
+    console.error(`✗ No signing key — set KITN_SIGNING_KEY or create ${DEFAULT_KEY_FILE} with --generate-key`);
+    process.exit(1);
+  }
+
+  const manifest = await signRegistry(join(ROOT, "r"), privateKey);
+  console.log(`✓ Signed ${Object.keys(manifest.signatures).length} files → r/${SIGNATURE_MANIFEST_FILE}`);
+  console.log(`  public key: ${manifest.publicKey}`);
+}
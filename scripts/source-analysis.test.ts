@@ -0,0 +1,196 @@
+import { describe, it, expect } from "bun:test";
+import { findSecretExposures, scanEnvReads, scanExports, scanModuleReferences, scanRegistrations } from "./source-analysis.js";
+
+const specifiers = (source: string) => scanModuleReferences(source).map((r) => r.specifier);
+
+describe("scanModuleReferences", () => {
+  it("finds every form of module reference with its location", () => {
+    const source = [
+      `import x from "./default.js";`,
+      `import "./setup.js";`,
+      `export * from "./all.js";`,
+      `export { a } from "./named.js";`,
+      `const lazy = await import("./lazy.js");`,
+      `const cjs = require("./cjs.js");`,
+      `import legacy = require("./legacy.js");`,
+      `let t: import("./types.js").T;`,
+    ].join("\n");
+
+    expect(scanModuleReferences(source).map(({ specifier, kind, line, column }) => [specifier, kind, line, column])).toEqual([
+      ["./default.js", "import", 1, 15],
+      ["./setup.js", "import", 2, 8],
+      ["./all.js", "export", 3, 15],
+      ["./named.js", "export", 4, 19],
+      ["./lazy.js", "dynamic-import", 5, 27],
+      ["./cjs.js", "require", 6, 21],
+      ["./legacy.js", "require", 7, 25],
+      ["./types.js", "import-type", 8, 15],
+    ]);
+  });
+
+  it("ignores specifiers in comments and strings", () => {
+    const source = [
+      `// import { nope } from "./commented.js";`,
+      `/* export * from "./block.js"; */`,
+      "const doc = `import x from \"./template.js\"`;",
+      `const s = 'import("./string.js")';`,
+      `import { real } from "./real.js";`,
+    ].join("\n");
+
+    expect(specifiers(source)).toEqual(["./real.js"]);
+  });
+
+  it("skips dynamic imports of non-literal specifiers", () => {
+    expect(specifiers(`const m = await import(name);\nrequire(path);`)).toEqual([]);
+  });
+
+  it("distinguishes type-only references", () => {
+    const source = [
+      `import type { A } from "a";`,
+      `import { type B, type C } from "b";`,
+      `import { type D, e } from "c";`,
+      `import f, { type G } from "d";`,
+      `import "e";`,
+      `export type { H } from "f";`,
+      `export { type I } from "g";`,
+      `import * as ns from "h";`,
+      `import {} from "i";`,
+    ].join("\n");
+
+    expect(scanModuleReferences(source).map((r) => [r.specifier, r.typeOnly])).toEqual([
+      ["a", true],
+      ["b", true],
+      ["c", false],
+      ["d", false],
+      ["e", false],
+      ["f", true],
+      ["g", true],
+      ["h", false],
+      ["i", false],
+    ]);
+  });
+});
+
+describe("scanEnvReads", () => {
+  it("finds reads through process.env, Bun.env and Deno.env.get", () => {
+    const source = [
+      `const a = process.env.API_KEY;`,
+      `const b = process.env["BASE_URL"];`,
+      `const { REGION, TIMEOUT: timeout = "5" } = process.env;`,
+      `const c = Bun.env.BUN_ONLY;`,
+      `const d = Deno.env.get("DENO_ONLY");`,
+      `const e = globalThis.process.env.GLOBAL;`,
+      `// process.env.COMMENTED`,
+      `const f = process.env[name];`,
+    ].join("\n");
+
+    expect(scanEnvReads(source).map(({ name, via, line, column }) => [name, via, line, column])).toEqual([
+      ["API_KEY", "process.env", 1, 11],
+      ["BASE_URL", "process.env", 2, 11],
+      ["REGION", "process.env", 3, 9],
+      ["TIMEOUT", "process.env", 3, 17],
+      ["BUN_ONLY", "Bun.env", 4, 11],
+      ["DENO_ONLY", "Deno.env.get", 5, 11],
+      ["GLOBAL", "process.env", 6, 11],
+    ]);
+  });
+});
+
+describe("findSecretExposures", () => {
+  const exposures = (source: string) =>
+    findSecretExposures(source, ["API_KEY"]).map(({ kind, line }) => [kind, line]);
+
+  it("flags secrets that are logged or returned, directly or through a variable", () => {
+    const source = [
+      `const key = process.env.API_KEY;`,
+      `const { API_KEY: alias } = process.env;`,
+      `console.log("key:", key);`,
+      "console.error(`using ${process.env.API_KEY}`);",
+      `export function config() { return { apiKey: alias, region: "us" }; }`,
+      `export const raw = () => "Bearer " + key;`,
+    ].join("\n");
+
+    expect(exposures(source)).toEqual([["logged", 3], ["logged", 4], ["returned", 5], ["returned", 6]]);
+  });
+
+  it("allows passing secrets to other calls and exposing non-secrets", () => {
+    const source = [
+      `const key = process.env.API_KEY;`,
+      `const client = new Client({ apiKey: key });`,
+      `console.log(mask(key));`,
+      `export async function get() { return fetch(url, { headers: { Authorization: key } }); }`,
+      `console.log(process.env.REGION);`,
+      `export const region = () => process.env.REGION;`,
+    ].join("\n");
+
+    expect(exposures(source)).toEqual([]);
+  });
+});
+
+describe("scanRegistrations", () => {
+  it("extracts static names, descriptions and tool bindings", () => {
+    const source = [
+      `import { registerAgent } from "@kitn/core";`,
+      `import { weatherTool } from "@kitn/tools/weather.js";`,
+      `import searchTool from "@kitn/tools/search.js";`,
+      ``,
+      `registerAgent({`,
+      `  name: "weather-agent",`,
+      `  description: DESCRIPTION,`,
+      `  system: SYSTEM_PROMPT,`,
+      `  tools: { weather: weatherTool, searchTool, local: localTool, "inline": tool({}) },`,
+      `});`,
+      ``,
+      "const DESCRIPTION = `Answers weather questions`;",
+    ].join("\n");
+
+    expect(scanRegistrations(source)).toEqual([{
+      fn: "registerAgent",
+      line: 5,
+      column: 1,
+      name: "weather-agent",
+      description: "Answers weather questions",
+      tools: [
+        { key: "weather", specifier: "@kitn/tools/weather.js", line: 9, column: 12 },
+        { key: "searchTool", specifier: "@kitn/tools/search.js", line: 9, column: 34 },
+        { key: "local", specifier: undefined, line: 9, column: 46 },
+        { key: "inline", specifier: undefined, line: 9, column: 64 },
+      ],
+    }]);
+  });
+
+  it("leaves dynamic values undefined and finds every call", () => {
+    const source = [
+      `registerTool({ name: \`tool-\${id}\`, description: describe() });`,
+      `registerCron({ name: "nightly", schedule: "0 0 * * *" });`,
+      `registerTool({ name: "second" });`,
+    ].join("\n");
+
+    expect(scanRegistrations(source).map(({ fn, name, description, schedule }) => ({ fn, name, description, schedule }))).toEqual([
+      { fn: "registerTool", name: undefined, description: undefined, schedule: undefined },
+      { fn: "registerCron", name: "nightly", description: undefined, schedule: "0 0 * * *" },
+      { fn: "registerTool", name: "second", description: undefined, schedule: undefined },
+    ]);
+  });
+});
+
+describe("scanExports", () => {
+  it("lists exported names once, skipping anonymous defaults and star exports", () => {
+    const source = [
+      `export const weatherTool = tool({}), units = ["c", "f"];`,
+      `export function fetchForecast() {}`,
+      `export default class Client {}`,
+      `export default () => {};`,
+      `export interface Forecast {}`,
+      `export type Units = "c" | "f";`,
+      `const local = 1;`,
+      `export { local as forecastCache, weatherTool };`,
+      `export * from "./helpers.js";`,
+      `export { parse as parseForecast } from "./parse.js";`,
+    ].join("\n");
+
+    expect(scanExports(source)).toEqual([
+      "weatherTool", "units", "fetchForecast", "Client", "Forecast", "Units", "forecastCache", "parseForecast",
+    ]);
+  });
+});
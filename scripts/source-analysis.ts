@@ -0,0 +1,389 @@
+/**
+ * Source analysis for component files, built on the TypeScript compiler API.
+ *
+ * Parses (without type-checking) so that only real syntax is reported —
+ * specifiers inside comments or string literals are ignored, and every
+ * form of module reference is seen:
+ *
+ *   import x from "a"          import "a"            export * from "a"
+ *   import type { T } from "a" export { x } from "a"  await import("a")
+ *   let t: import("a").T       require("a")          import x = require("a")
+ *
+ * It also finds environment variable reads (process.env, Bun.env,
+ * Deno.env.get), places where a secret's value is logged or returned, the
+ * static arguments of registerAgent / registerTool / registerCron calls, and
+ * the names a module exports (for the search index).
+ */
+
+import ts from "typescript";
+
+export type ModuleReferenceKind = "import" | "export" | "dynamic-import" | "require" | "import-type";
+
+export interface ModuleReference {
+  specifier: string;
+  kind: ModuleReferenceKind;
+  /** Erased at compile time — `import type`, all-`type` named imports, `import("a").T` */
+  typeOnly: boolean;
+  /** 1-based position of the specifier string */
+  line: number;
+  column: number;
+}
+
+// The script kind (ts, tsx, js, ...) follows the file extension
+export function parseSource(source: string, fileName = "source.ts"): ts.SourceFile {
+  return ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true);
+}
+
+// Every module specifier in a file, in source order
+export function scanModuleReferences(source: string, fileName?: string): ModuleReference[] {
+  const sourceFile = parseSource(source, fileName);
+  const references: ModuleReference[] = [];
+
+  const add = (literal: ts.Node, kind: ModuleReferenceKind, typeOnly: boolean) => {
+    if (!ts.isStringLiteralLike(literal)) return;
+    references.push({ specifier: literal.text, kind, typeOnly, ...position(sourceFile, literal) });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      add(node.moduleSpecifier, "import", isTypeOnlyImport(node.importClause));
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      add(node.moduleSpecifier, "export", isTypeOnlyExport(node));
+    } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      add(node.moduleReference.expression, "require", node.isTypeOnly);
+    } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+      add(node.argument.literal, "import-type", true);
+    } else if (ts.isCallExpression(node) && node.arguments.length > 0) {
+      if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+        add(node.arguments[0], "dynamic-import", false);
+      } else if (ts.isIdentifier(node.expression) && node.expression.text === "require") {
+        add(node.arguments[0], "require", false);
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return references;
+}
+
+function isTypeOnlyImport(clause: ts.ImportClause | undefined): boolean {
+  // `import "a"` runs the module for its side effects
+  if (!clause) return false;
+  if (clause.isTypeOnly) return true;
+  // `import x, { type T } from "a"` still needs x at runtime
+  if (clause.name) return false;
+  const bindings = clause.namedBindings;
+  return !!bindings && ts.isNamedImports(bindings) && bindings.elements.length > 0 &&
+    bindings.elements.every((element) => element.isTypeOnly);
+}
+
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  if (node.isTypeOnly) return true;
+  const clause = node.exportClause;
+  return !!clause && ts.isNamedExports(clause) && clause.elements.length > 0 &&
+    clause.elements.every((element) => element.isTypeOnly);
+}
+
+export type EnvReadSource = "process.env" | "Bun.env" | "Deno.env.get";
+
+export interface EnvRead {
+  name: string;
+  via: EnvReadSource;
+  line: number;
+  column: number;
+}
+
+export interface SecretExposure {
+  name: string;
+  kind: "logged" | "returned";
+  line: number;
+  column: number;
+}
+
+// Every statically-named environment variable read, in source order:
+//   process.env.X   process.env["X"]   const { X } = process.env
+//   Bun.env.X       Deno.env.get("X")
+export function scanEnvReads(source: string, fileName?: string): EnvRead[] {
+  const sourceFile = parseSource(source, fileName);
+  const reads: EnvRead[] = [];
+
+  const visit = (node: ts.Node) => {
+    const read = envReadAt(node);
+    if (read) {
+      reads.push({ ...read, ...position(sourceFile, node) });
+    } else if (ts.isVariableDeclaration(node) && ts.isObjectBindingPattern(node.name) && node.initializer) {
+      const via = envObject(node.initializer);
+      for (const element of via ? node.name.elements : []) {
+        const key = element.propertyName ?? element.name;
+        if (ts.isIdentifier(key) || ts.isStringLiteralLike(key)) {
+          reads.push({ name: key.text, via: via!, ...position(sourceFile, element) });
+        }
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return reads;
+}
+
+// Places where a secret's value flows straight into console.* or a return
+// value — directly, through a local variable, or embedded in a template,
+// string concatenation, object or array. Passing it to any other call (a
+// fetch header, a client constructor, a masking helper) is not exposure.
+export function findSecretExposures(source: string, secrets: Iterable<string>, fileName?: string): SecretExposure[] {
+  const secretNames = new Set(secrets);
+  if (secretNames.size === 0) return [];
+
+  const sourceFile = parseSource(source, fileName);
+  const exposures: SecretExposure[] = [];
+  // Local variables holding a secret, e.g. const key = process.env.API_KEY
+  const tainted = new Map<string, string>();
+
+  const secretIn = (expr: ts.Expression): string | undefined => {
+    const read = envReadAt(expr);
+    if (read) return secretNames.has(read.name) ? read.name : undefined;
+    if (ts.isIdentifier(expr)) return tainted.get(expr.text);
+    if (ts.isParenthesizedExpression(expr) || ts.isAsExpression(expr) || ts.isNonNullExpression(expr)) {
+      return secretIn(expr.expression);
+    }
+    if (ts.isTemplateExpression(expr)) {
+      return firstDefined(expr.templateSpans.map((span) => secretIn(span.expression)));
+    }
+    if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.PlusToken) {
+      return secretIn(expr.left) ?? secretIn(expr.right);
+    }
+    if (ts.isBinaryExpression(expr) && (expr.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken ||
+      expr.operatorToken.kind === ts.SyntaxKind.BarBarToken)) {
+      return secretIn(expr.left) ?? secretIn(expr.right);
+    }
+    if (ts.isArrayLiteralExpression(expr)) {
+      return firstDefined(expr.elements.map((element) => secretIn(ts.isSpreadElement(element) ? element.expression : element)));
+    }
+    if (ts.isObjectLiteralExpression(expr)) {
+      return firstDefined(expr.properties.map((property) => {
+        if (ts.isPropertyAssignment(property)) return secretIn(property.initializer);
+        if (ts.isShorthandPropertyAssignment(property)) return tainted.get(property.name.text);
+        if (ts.isSpreadAssignment(property)) return secretIn(property.expression);
+        return undefined;
+      }));
+    }
+    return undefined;
+  };
+
+  const report = (name: string, kind: SecretExposure["kind"], node: ts.Node) => {
+    exposures.push({ name, kind, ...position(sourceFile, node) });
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isVariableDeclaration(node) && node.initializer) {
+      if (ts.isIdentifier(node.name)) {
+        const secret = secretIn(node.initializer);
+        if (secret) tainted.set(node.name.text, secret);
+      } else if (ts.isObjectBindingPattern(node.name) && envObject(node.initializer)) {
+        for (const element of node.name.elements) {
+          const key = element.propertyName ?? element.name;
+          if ((ts.isIdentifier(key) || ts.isStringLiteralLike(key)) && secretNames.has(key.text) && ts.isIdentifier(element.name)) {
+            tainted.set(element.name.text, key.text);
+          }
+        }
+      }
+    } else if (ts.isCallExpression(node) && isConsoleCall(node.expression)) {
+      for (const arg of node.arguments) {
+        const secret = secretIn(arg);
+        if (secret) report(secret, "logged", arg);
+      }
+    } else if (ts.isReturnStatement(node) && node.expression) {
+      const secret = secretIn(node.expression);
+      if (secret) report(secret, "returned", node.expression);
+    } else if (ts.isArrowFunction(node) && !ts.isBlock(node.body)) {
+      const secret = secretIn(node.body);
+      if (secret) report(secret, "returned", node.body);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return exposures;
+}
+
+// Names a module exports, in source order — declarations, `export { a as b }`
+// and re-exports with names. Anonymous defaults and `export *` have none.
+export function scanExports(source: string, fileName?: string): string[] {
+  const sourceFile = parseSource(source, fileName);
+  const names: string[] = [];
+  const add = (name: string) => {
+    if (name !== "default" && !names.includes(name)) names.push(name);
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportDeclaration(statement)) {
+      if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+        for (const element of statement.exportClause.elements) add(element.name.text);
+      }
+      continue;
+    }
+
+    const exported = ts.canHaveModifiers(statement) &&
+      ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+    if (!exported) continue;
+    if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) add(declaration.name.text);
+      }
+    } else if (
+      (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement) || ts.isInterfaceDeclaration(statement) ||
+        ts.isTypeAliasDeclaration(statement) || ts.isEnumDeclaration(statement)) &&
+      statement.name
+    ) {
+      add(statement.name.text);
+    }
+  }
+  return names;
+}
+
+export const registerFunctions = ["registerAgent", "registerTool", "registerCron"] as const;
+export type RegisterFunction = (typeof registerFunctions)[number];
+
+export interface ToolBinding {
+  /** Key in the agent's `tools` object */
+  key: string;
+  /** Module the bound value was imported from, when it was imported */
+  specifier?: string;
+  line: number;
+  column: number;
+}
+
+export interface Registration {
+  fn: RegisterFunction;
+  line: number;
+  column: number;
+  // Static values — undefined when the argument isn't a string literal or a
+  // const initialized with one
+  name?: string;
+  description?: string;
+  schedule?: string;
+  /** registerAgent only, when `tools` is an object literal */
+  tools?: ToolBinding[];
+}
+
+// Every registerAgent / registerTool / registerCron call, in source order
+export function scanRegistrations(source: string, fileName?: string): Registration[] {
+  const sourceFile = parseSource(source, fileName);
+  const registrations: Registration[] = [];
+  const constants = new Map<string, string>();
+  const imports = new Map<string, string>();
+
+  // Module-level bindings first, so calls can refer to consts declared below them
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteralLike(statement.moduleSpecifier)) {
+      const clause = statement.importClause;
+      const specifier = statement.moduleSpecifier.text;
+      if (clause?.name) imports.set(clause.name.text, specifier);
+      if (clause?.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+        for (const element of clause.namedBindings.elements) imports.set(element.name.text, specifier);
+      }
+    } else if (ts.isVariableStatement(statement) && statement.declarationList.flags & ts.NodeFlags.Const) {
+      for (const declaration of statement.declarationList.declarations) {
+        const value = declaration.initializer && staticString(declaration.initializer);
+        if (ts.isIdentifier(declaration.name) && value !== undefined) constants.set(declaration.name.text, value);
+      }
+    }
+  }
+
+  const stringValue = (expr: ts.Expression | undefined): string | undefined => {
+    if (!expr) return undefined;
+    if (ts.isIdentifier(expr)) return constants.get(expr.text);
+    return staticString(expr);
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) &&
+      (registerFunctions as readonly string[]).includes(node.expression.text)) {
+      const registration: Registration = { fn: node.expression.text as RegisterFunction, ...position(sourceFile, node) };
+      const config = node.arguments[0];
+      if (config && ts.isObjectLiteralExpression(config)) {
+        for (const property of config.properties) {
+          const key = property.name && propertyKey(property.name);
+          const value = ts.isPropertyAssignment(property) ? property.initializer
+            : ts.isShorthandPropertyAssignment(property) ? property.name
+            : undefined;
+          if (key === "name") registration.name = stringValue(value);
+          if (key === "description") registration.description = stringValue(value);
+          if (key === "schedule") registration.schedule = stringValue(value);
+          if (key === "tools" && value && ts.isObjectLiteralExpression(value) && registration.fn === "registerAgent") {
+            registration.tools = value.properties.flatMap((tool) => {
+              const toolKey = tool.name && propertyKey(tool.name);
+              if (!toolKey) return [];
+              const bound = ts.isShorthandPropertyAssignment(tool) ? tool.name
+                : ts.isPropertyAssignment(tool) && ts.isIdentifier(tool.initializer) ? tool.initializer
+                : undefined;
+              return [{ key: toolKey, specifier: bound && imports.get(bound.text), ...position(sourceFile, tool) }];
+            });
+          }
+        }
+      }
+      registrations.push(registration);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return registrations;
+}
+
+function staticString(expr: ts.Expression): string | undefined {
+  return ts.isStringLiteralLike(expr) ? expr.text : undefined;
+}
+
+function propertyKey(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteralLike(name) ? name.text : undefined;
+}
+
+// process.env / Bun.env, optionally through globalThis
+function envObject(expr: ts.Expression): EnvReadSource | undefined {
+  if (!ts.isPropertyAccessExpression(expr) || expr.name.text !== "env") return undefined;
+  let owner = expr.expression;
+  if (ts.isPropertyAccessExpression(owner) && ts.isIdentifier(owner.expression) && owner.expression.text === "globalThis") {
+    owner = owner.name;
+  }
+  if (!ts.isIdentifier(owner)) return undefined;
+  if (owner.text === "process") return "process.env";
+  if (owner.text === "Bun") return "Bun.env";
+  return undefined;
+}
+
+function envReadAt(node: ts.Node): Omit<EnvRead, "line" | "column"> | undefined {
+  if (ts.isPropertyAccessExpression(node)) {
+    const via = envObject(node.expression);
+    if (via) return { name: node.name.text, via };
+  }
+  if (ts.isElementAccessExpression(node) && ts.isStringLiteralLike(node.argumentExpression)) {
+    const via = envObject(node.expression);
+    if (via) return { name: node.argumentExpression.text, via };
+  }
+  // Deno.env.get("X")
+  if (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) &&
+    node.expression.name.text === "get" && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+    const env = node.expression.expression;
+    if (ts.isPropertyAccessExpression(env) && env.name.text === "env" &&
+      ts.isIdentifier(env.expression) && env.expression.text === "Deno") {
+      return { name: node.arguments[0].text, via: "Deno.env.get" };
+    }
+  }
+  return undefined;
+}
+
+function isConsoleCall(callee: ts.Expression): boolean {
+  return ts.isPropertyAccessExpression(callee) && ts.isIdentifier(callee.expression) && callee.expression.text === "console";
+}
+
+function firstDefined<T>(values: Array<T | undefined>): T | undefined {
+  return values.find((value) => value !== undefined);
+}
+
+function position(sourceFile: ts.SourceFile, node: ts.Node): { line: number; column: number } {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return { line: line + 1, column: character + 1 };
+}
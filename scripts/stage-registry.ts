@@ -7,72 +7,87 @@
  * Creates:
  *   _staging/agents/weather-agent.ts → ../components/agents/weather-agent/weather-agent.ts
  *   _staging/tools/weather.ts        → ../components/tools/weather-tool/weather.ts
+ *   _staging/lib/acme/src/index.ts   → ../components/package/acme/src/index.ts (package installDir)
  *   ...
+ *
+ * and _staging/tsconfig.json, which extends the root tsconfig with the path
+ * aliases packages declare in their manifest `tsconfig`. `bun run typecheck`
+ * type-checks against that config.
  */
 
-import { readdir, readFile, mkdir, symlink, rm } from "fs/promises";
+import { mkdir, symlink, rm, readFile, writeFile } from "fs/promises";
 import { join, relative, dirname } from "path";
+import { loadComponents, exitOnProblems, typeToDir } from "./load-components.js";
 
 const ROOT = new URL("..", import.meta.url).pathname;
-const COMPONENTS_DIR = join(ROOT, "components");
 const STAGING_DIR = join(ROOT, "_staging");
 
-const typeToDir: Record<string, string> = {
-  "kitn:agent": "agents",
-  "kitn:tool": "tools",
-  "kitn:skill": "skills",
-  "kitn:storage": "storage",
-  "kitn:cron": "crons",
-};
-
 async function main() {
   // Clean previous staging
   await rm(STAGING_DIR, { recursive: true, force: true });
 
   let linkCount = 0;
 
-  for (const typeDir of ["agents", "tools", "skills", "storage", "crons"]) {
-    const dir = join(COMPONENTS_DIR, typeDir);
-    let entries: string[];
-    try {
-      entries = await readdir(dir);
-    } catch {
-      continue;
-    }
+  const { components, problems } = await loadComponents();
+  exitOnProblems(problems);
+
+  // Path aliases from package manifests, relative to the project root
+  const packagePaths: Record<string, string[]> = {};
+
+  for (const { manifest, dir, files } of components) {
+    // Packages install wherever their installDir says, mirrored under _staging/
+    const installDir = manifest.type === "kitn:package" ? manifest.installDir : typeToDir[manifest.type];
+    if (!installDir) continue;
+    Object.assign(packagePaths, manifest.tsconfig);
+
+    for (const fileName of files) {
+      // Only stage TypeScript files (skip .md skills etc.)
+      if (!fileName.endsWith(".ts")) continue;
+
+      const sourcePath = join(dir, fileName);
+      const stagingPath = join(STAGING_DIR, installDir, fileName);
+
+      await mkdir(dirname(stagingPath), { recursive: true });
 
-    for (const entry of entries) {
-      const manifestPath = join(dir, entry, "manifest.json");
-      let manifestRaw: string;
-      try {
-        manifestRaw = await readFile(manifestPath, "utf-8");
-      } catch {
-        continue;
-      }
-
-      const manifest = JSON.parse(manifestRaw);
-      const installDir = typeToDir[manifest.type];
-      if (!installDir) continue;
-
-      for (const fileName of manifest.files ?? []) {
-        // Only stage TypeScript files (skip .md skills etc.)
-        if (!fileName.endsWith(".ts")) continue;
-
-        const sourcePath = join(dir, entry, fileName);
-        const stagingPath = join(STAGING_DIR, installDir, fileName);
-
-        await mkdir(dirname(stagingPath), { recursive: true });
-
-        // Create relative symlink from staging to source
-        const relTarget = relative(dirname(stagingPath), sourcePath);
-        await symlink(relTarget, stagingPath);
-        linkCount++;
-      }
+      // Create relative symlink from staging to source
+      const relTarget = relative(dirname(stagingPath), sourcePath);
+      await symlink(relTarget, stagingPath);
+      linkCount++;
     }
   }
 
+  await writeStagingTsconfig(packagePaths);
+
   console.log(`Staged ${linkCount} files in _staging/`);
 }
 
+// The root tsconfig's paths, rebased onto _staging/, plus the package aliases
+// pointing at the staged install locations
+async function writeStagingTsconfig(packagePaths: Record<string, string[]>) {
+  const rootConfig = JSON.parse(await readFile(join(ROOT, "tsconfig.json"), "utf-8"));
+  const rebase = (target: string) => {
+    const rebased = relative(STAGING_DIR, join(ROOT, target));
+    return rebased.startsWith("..") ? rebased : `./${rebased}`;
+  };
+
+  const paths: Record<string, string[]> = {};
+  for (const [alias, targets] of Object.entries<string[]>(rootConfig.compilerOptions?.paths ?? {})) {
+    paths[alias] = targets.map(rebase);
+  }
+  // Package targets are already relative to the (staged) project root
+  for (const [alias, targets] of Object.entries(packagePaths)) {
+    paths[alias] = targets.map((target) => `./${target.replace(/^\.\//, "")}`);
+  }
+
+  const config = {
+    extends: "../tsconfig.json",
+    compilerOptions: { paths },
+    include: ["./**/*.ts"],
+  };
+  await mkdir(STAGING_DIR, { recursive: true });
+  await writeFile(join(STAGING_DIR, "tsconfig.json"), JSON.stringify(config, null, 2) + "\n");
+}
+
 main().catch((err) => {
   console.error(err);
   process.exit(1);
@@ -1,6 +1,9 @@
-import { describe, it, expect } from "bun:test";
+import { describe, it, expect, beforeAll, afterAll, spyOn } from "bun:test";
 import { execSync } from "child_process";
+import { mkdtemp, mkdir, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
 import { join } from "path";
+import { validateRegistry } from "./validate-registry.js";
 
 const REGISTRY_DIR = join(import.meta.dir, "..");
 
@@ -13,3 +16,576 @@ describe("validate-registry", () => {
     expect(result).toContain("All imports resolve correctly");
   });
 });
+
+describe("cron schedules", () => {
+  let root: string;
+
+  async function addCron(name: string, source: string) {
+    const dir = join(root, "components", "crons", name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.ts`), source);
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      type: "kitn:cron",
+      description: name,
+      version: "1.0.0",
+      files: [`${name}.ts`],
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-"));
+    await addCron("good-cron", `registerCron({ name: "good-cron", schedule: "*/5 * * * *", handler: () => {} });\n`);
+    await addCron("bad-cron", `registerCron({\n  name: "bad-cron",\n  schedule: "0 25 * *",\n  handler: () => {},\n});\n`);
+    await addCron("silent-cron", `export const run = () => {};\n`);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("reports invalid schedules and crons that never register", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    try {
+      expect((await validateRegistry({ root, only: ["good-cron"] })).errors).toBe(0);
+      expect((await validateRegistry({ root })).errors).toBe(2);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(logged.join("\n")).toContain(`bad-cron → components/crons/bad-cron/bad-cron.ts:1:1\n  invalid cron schedule "0 25 * *"`);
+    expect(logged.join("\n")).toContain("silent-cron: cron components must call registerCron()");
+  });
+});
+
+describe("packages", () => {
+  let root: string;
+
+  async function addComponent(typeDir: string, name: string, manifest: object, files: Record<string, string>) {
+    const dir = join(root, "components", typeDir, name);
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(join(dir, file, ".."), { recursive: true });
+      await writeFile(join(dir, file), content);
+    }
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      description: name,
+      version: "1.0.0",
+      files: Object.keys(files),
+      ...manifest,
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-pkg-"));
+    await addComponent("package", "acme", {
+      type: "kitn:package",
+      files: ["src/**/*.ts"],
+      installDir: "./lib/acme/",
+      tsconfig: { "@acme/utils": ["./lib/acme/src/index.ts"], "@acme/utils/*": ["./lib/acme/src/*"] },
+    }, {
+      "src/index.ts": `export * from "./strings/upper.js";\n`,
+      "src/strings/upper.ts": `import { missing } from "../nope.js";\nexport const upper = (s: string) => s.toUpperCase();\n`,
+    });
+    await addComponent("tools", "shout-tool", {
+      type: "kitn:tool",
+      registryDependencies: ["acme"],
+      dependencies: ["zod"],
+    }, {
+      "shout-tool.ts": [
+        `import { upper } from "@acme/utils";`,
+        `import { upper as u } from "@acme/utils/strings/upper.js";`,
+        `import { lower } from "@acme/utils/strings/lower.js";`,
+        `import { z } from "zod";`,
+        `registerTool({ name: "shout-tool" });`,
+        "",
+      ].join("\n"),
+    });
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("resolves nested package files against installDir and package aliases", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(result.errors).toBe(2);
+    expect(result.importsChecked).toBe(5);
+    const output = logged.join("\n");
+    expect(output).toContain(`import "../nope.js" resolves to "lib/acme/src/nope.ts" which is not in the registry`);
+    expect(output).toContain(
+      `import "@acme/utils/strings/lower.js" (alias "@acme/utils/*" from acme) resolves to "lib/acme/src/strings/lower.ts" which is not in the registry`,
+    );
+  });
+});
+
+describe("import analysis", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-imports-"));
+    const dir = join(root, "components", "tools", "lazy-tool");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "lazy-tool.ts"), [
+      `// import { old } from "./removed.js";`,
+      `import "./setup.js";`,
+      `const doc = "import x from './in-a-string.js'";`,
+      `export async function load() {`,
+      `  return import("../agents/helper-agent.js");`,
+      `}`,
+      `registerTool({ name: "lazy-tool" });`,
+      "",
+    ].join("\n"));
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name: "lazy-tool",
+      type: "kitn:tool",
+      description: "Lazy",
+      version: "1.0.0",
+      files: ["lazy-tool.ts"],
+    }));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("checks side-effect and dynamic imports, ignoring comments and strings, with locations", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(result.errors).toBe(2);
+    expect(result.importsChecked).toBe(2);
+    const output = logged.join("\n");
+    expect(output).toContain("lazy-tool → components/tools/lazy-tool/lazy-tool.ts:2:8");
+    expect(output).toContain(`import "./setup.js" resolves to "tools/setup.ts" which is not in the registry`);
+    expect(output).toContain("lazy-tool → components/tools/lazy-tool/lazy-tool.ts:5:17");
+    expect(output).toContain(`relative cross-type import "../agents/helper-agent.js" should use @kitn/ alias instead`);
+    expect(output).not.toContain("removed.js");
+    expect(output).not.toContain("in-a-string.js");
+  });
+});
+
+describe("npm dependencies", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-deps-"));
+    const dir = join(root, "components", "tools", "chat-tool");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "chat-tool.ts"), [
+      `import { readFile } from "node:fs/promises";`,
+      `import { join } from "path";`,
+      `import { registerTool } from "@kitn/core";`,
+      `import { z } from "zod";`,
+      `import OpenAI from "openai";`,
+      `import type { JsonValue } from "type-fest";`,
+      `import { openai } from "@ai-sdk/openai/internal";`,
+      `import { debounce } from "lodash-es";`,
+      `registerTool({ name: "chat-tool" });`,
+      "",
+    ].join("\n"));
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name: "chat-tool",
+      type: "kitn:tool",
+      description: "Chat",
+      version: "1.0.0",
+      dependencies: ["zod@^3", "@ai-sdk/openai@^1", "type-fest", "nanoid"],
+      devDependencies: ["@types/node", "lodash-es"],
+      files: ["chat-tool.ts"],
+    }));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("reports missing, dev-only, type-only and unused packages", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(result.errors).toBe(2);
+    expect(result.warnings).toBe(2);
+    const output = logged.join("\n");
+    expect(output).toContain("chat-tool → components/tools/chat-tool/chat-tool.ts:5:20");
+    expect(output).toContain(`imports "openai" but it is not declared in dependencies`);
+    expect(output).toContain(`imports "lodash-es" at runtime but it is only in devDependencies`);
+    expect(output).toContain(`"type-fest" is only used for types — move it to devDependencies`);
+    expect(output).toContain(`chat-tool: "nanoid" is in dependencies but never imported`);
+  });
+});
+
+describe("environment variables", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-env-"));
+    const dir = join(root, "components", "tools", "search-tool");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "search-tool.ts"), [
+      `const apiKey = process.env.SEARCH_API_KEY;`,
+      `const region = Bun.env.SEARCH_REGION;`,
+      `console.log("starting with", apiKey);`,
+      `export const client = new SearchClient({ apiKey, region });`,
+      `registerTool({ name: "search-tool" });`,
+      "",
+    ].join("\n"));
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name: "search-tool",
+      type: "kitn:tool",
+      description: "Search",
+      version: "1.0.0",
+      files: ["search-tool.ts"],
+      envVars: {
+        SEARCH_API_KEY: { description: "API key", required: true, secret: true },
+        SEARCH_TIMEOUT: { description: "Timeout in ms" },
+      },
+    }));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("reports undeclared reads, unread declarations and logged secrets", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(result.errors).toBe(2);
+    expect(result.warnings).toBe(1);
+    const output = logged.join("\n");
+    expect(output).toContain("search-tool → components/tools/search-tool/search-tool.ts:2:16");
+    expect(output).toContain(`reads Bun.env.SEARCH_REGION but "SEARCH_REGION" is not declared in envVars`);
+    expect(output).toContain("search-tool → components/tools/search-tool/search-tool.ts:3:30");
+    expect(output).toContain(`secret env var "SEARCH_API_KEY" is logged — secrets must never be logged or returned`);
+    expect(output).toContain(`search-tool: env var "SEARCH_TIMEOUT" is in envVars but never read`);
+  });
+});
+
+describe("register* calls", () => {
+  let root: string;
+
+  async function addComponent(typeDir: string, name: string, manifest: object, source: string) {
+    const dir = join(root, "components", typeDir, name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.ts`), source);
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      description: `${name} description`,
+      version: "1.0.0",
+      files: [`${name}.ts`],
+      ...manifest,
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-register-"));
+    await addComponent("tools", "weather-tool", { type: "kitn:tool" },
+      `registerTool({ name: "weather-tool", description: "weather-tool description" });\n`);
+    await addComponent("tools", "search-tool", { type: "kitn:tool" },
+      `registerTool({ name: "search", description: "Searches the web" });\nregisterTool({ name: "search-tool" });\n`);
+    await addComponent("agents", "travel-agent", { type: "kitn:agent", registryDependencies: ["weather-tool"] }, [
+      `import { weatherTool } from "@kitn/tools/weather-tool.js";`,
+      `import { searchTool } from "@kitn/tools/search-tool.js";`,
+      `registerAgent({ name: "travel-agent", tools: { weatherTool, search: searchTool } });`,
+      `registerTool({ name: "booking-tool" });`,
+      "",
+    ].join("\n"));
+    await addComponent("tools", "quiet-tool", { type: "kitn:tool" }, `export const quiet = 1;\n`);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("checks names, descriptions, tool dependencies and single registration", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    const output = logged.join("\n");
+    expect(output).toContain(`travel-agent → components/agents/travel-agent/travel-agent.ts:3:61\n  tool "search" comes from search-tool, which is not in registryDependencies`);
+    expect(output).toContain(`travel-agent → components/agents/travel-agent/travel-agent.ts:4:1\n  registerTool() in a kitn:agent component`);
+    expect(output).toContain(`search-tool → components/tools/search-tool/search-tool.ts:1:1\n  registers as "search" but manifest.json name is "search-tool"`);
+    expect(output).toContain(`description "Searches the web" differs from manifest.json "search-tool description"`);
+    expect(output).toContain("search-tool: registerTool() is called 2 times — a component must register exactly once");
+    expect(output).toContain("quiet-tool: tool components must call registerTool() from @kitn/core");
+    expect(output).not.toContain("weather-tool →");
+    expect(result.errors).toBe(5);
+    expect(result.warnings).toBe(1);
+  });
+});
+
+describe("skills", () => {
+  let root: string;
+
+  async function addComponent(typeDir: string, name: string, manifest: object, files: Record<string, string>) {
+    const dir = join(root, "components", typeDir, name);
+    for (const [file, content] of Object.entries(files)) {
+      await mkdir(join(dir, file, ".."), { recursive: true });
+      await writeFile(join(dir, file), content);
+    }
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      description: name,
+      version: "1.0.0",
+      files: Object.keys(files),
+      ...manifest,
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-skills-"));
+    await addComponent("tools", "weather-tool", { type: "kitn:tool" },
+      { "weather-tool.ts": `registerTool({ name: "weather-tool" });\n` });
+    await addComponent("tools", "search-tool", { type: "kitn:tool" },
+      { "search-tool.ts": `registerTool({ name: "search-tool" });\n` });
+    await addComponent("agents", "helper-agent", { type: "kitn:agent" },
+      { "helper-agent.ts": `registerAgent({ name: "helper-agent" });\n` });
+    await addComponent("skills", "forecast-skill", { type: "kitn:skill", registryDependencies: ["weather-tool"] }, {
+      "README.md": [
+        "---",
+        "name: forecast-skill",
+        "description: Forecasting",
+        "tools: [weather-tool, search-tool, helper-agent, missing-tool]",
+        "---",
+        "",
+        "Read [the guide](docs/guide.md#intro), not [the old one](docs/old.md).",
+        "",
+      ].join("\n"),
+      "docs/guide.md": "Back to [the skill](../README.md).\n",
+    });
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("reports broken relative links and undeclared tools", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    const output = logged.join("\n");
+    const at = "forecast-skill → components/skills/forecast-skill/README.md";
+    expect(output).toContain(`${at}:7:58\n  link to "docs/old.md" does not match any file in the component`);
+    expect(output).not.toContain("docs/guide.md");
+    expect(output).toContain(`${at}: frontmatter tools — "search-tool" is not in registryDependencies`);
+    expect(output).toContain(`${at}: frontmatter tools — "helper-agent" is a kitn:agent, not a kitn:tool`);
+    expect(output).toContain(`${at}: frontmatter tools — "missing-tool" is not a component in this registry`);
+    expect(result.errors).toBe(4);
+  });
+});
+
+describe("deprecations and renames", () => {
+  let root: string;
+
+  async function addStore(name: string, extra: object) {
+    const dir = join(root, "components", "storage", name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.ts`), "export const store = new Map<string, string>();\n");
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      type: "kitn:storage",
+      description: name,
+      version: "1.0.0",
+      files: [`${name}.ts`],
+      ...extra,
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-lifecycle-"));
+    await addStore("kv-store", { renamedFrom: ["cache-store"] });
+    await addStore("file-store", { deprecated: { message: "Files don't survive redeploys", replacement: "kv-store" } });
+    await addStore("app-store", { registryDependencies: ["file-store", "cache-store"] });
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("warns about deprecated dependencies and points old names at the new one", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(result.errors).toBe(1);
+    expect(result.warnings).toBe(1);
+    expect(logged).toEqual([
+      `\x1b[33m!\x1b[0m app-store: registryDependency "file-store" is deprecated — Files don't survive redeploys`,
+      `  \x1b[33mhint\x1b[0m: depend on "kv-store" instead`,
+      `\x1b[31m✗\x1b[0m app-store: registryDependency "cache-store" does not exist in the registry`,
+      `  \x1b[33mhint\x1b[0m: "cache-store" was renamed to "kv-store"`,
+    ]);
+  });
+});
+
+describe("cross-registry dependencies", () => {
+  let root: string;
+
+  async function addTool(name: string, source: string, registryDependencies: string[]) {
+    const dir = join(root, "components", "tools", name);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.ts`), source);
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name,
+      type: "kitn:tool",
+      description: name,
+      version: "1.0.0",
+      files: [`${name}.ts`],
+      registryDependencies,
+    }));
+  }
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-external-"));
+    await writeFile(join(root, "registry.config.json"), JSON.stringify({
+      registries: { "@acme": { url: "https://acme.example.com/r", snapshot: "registries/acme.json" } },
+    }));
+    await mkdir(join(root, "registries"));
+    await writeFile(join(root, "registries", "acme.json"), JSON.stringify({
+      version: "1.0.0",
+      items: [
+        { name: "geo-tool", type: "kitn:tool", description: "Geocoding", version: "1.2.0" },
+        { name: "old-geo-tool", type: "kitn:tool", description: "Geocoding", version: "1.0.0", deprecated: { message: "Use geo-tool" } },
+      ],
+    }));
+    const register = (name: string) => `registerTool({ name: "${name}", description: "${name}", tool: geocode });\n`;
+    await addTool("route-tool", `import { geocode } from "@kitn/tools/geo-tool.js";\n${register("route-tool")}`, ["@acme/geo-tool@^1"]);
+    await addTool("map-tool", `import { geocode } from "@kitn/tools/geo-tool.js";\n${register("map-tool")}`, [
+      "@acme/old-geo-tool",
+      "@acme/geo-tool@^2",
+      "@initech/geo-tool",
+    ]);
+    await addTool("pin-tool", `import { geocode } from "@kitn/tools/geo-tool.js";\n${register("pin-tool")}`, []);
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("resolves namespaced dependencies against the snapshots", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      expect((await validateRegistry({ root, only: ["route-tool"] })).errors).toBe(0);
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(result.errors).toBe(3);
+    expect(result.warnings).toBe(1);
+    expect(logged).toContain(`  import "@kitn/tools/geo-tool.js" resolves to "tools/geo-tool.ts" which is not in the registry`);
+    expect(logged.filter((line) => line.startsWith("\x1b[31m✗\x1b[0m pin-tool"))).toHaveLength(1);
+    expect(logged.slice(-5)).toEqual([
+      `\x1b[33m!\x1b[0m map-tool: registryDependency "@acme/old-geo-tool" is deprecated — Use geo-tool`,
+      `\x1b[31m✗\x1b[0m map-tool: registryDependency "@acme/geo-tool@^2" can't be resolved — no published version of "geo-tool" satisfies "^2" (has 1.2.0)`,
+      `  \x1b[33mhint\x1b[0m: registries/acme.json may be out of date — run "bun run sync @acme"`,
+      `\x1b[31m✗\x1b[0m map-tool: registryDependency "@initech/geo-tool" can't be resolved — "@initech" is not in registry.config.json`,
+      `  \x1b[33mhint\x1b[0m: add it under "registries" with the registry's url and a snapshot path, then run "bun run sync @initech"`,
+    ]);
+  });
+});
+
+describe("cross-registry skill tools", () => {
+  let root: string;
+
+  beforeAll(async () => {
+    root = await mkdtemp(join(tmpdir(), "kitn-validate-external-skill-"));
+    await writeFile(join(root, "registry.config.json"), JSON.stringify({
+      registries: { "@acme": { url: "https://acme.example.com/r", snapshot: "acme.json" } },
+    }));
+    await writeFile(join(root, "acme.json"), JSON.stringify({
+      version: "1.0.0",
+      items: [
+        { name: "geo-tool", type: "kitn:tool", description: "Geocoding", version: "1.2.0" },
+        { name: "map-tool", type: "kitn:tool", description: "Maps", version: "1.0.0" },
+        { name: "geo-agent", type: "kitn:agent", description: "Geo agent", version: "1.0.0" },
+      ],
+    }));
+    const dir = join(root, "components", "skills", "route-skill");
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "README.md"), [
+      "---",
+      "name: route-skill",
+      "description: Routing",
+      "tools: ['@acme/geo-tool', '@acme/map-tool', '@acme/geo-agent', '@acme/missing-tool']",
+      "---",
+      "",
+    ].join("\n"));
+    await writeFile(join(dir, "manifest.json"), JSON.stringify({
+      name: "route-skill",
+      type: "kitn:skill",
+      description: "Routing",
+      version: "1.0.0",
+      files: ["README.md"],
+      registryDependencies: ["@acme/geo-tool@^1", "@acme/geo-agent"],
+    }));
+  });
+
+  afterAll(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("resolves namespaced frontmatter tools against the snapshots", async () => {
+    const logged: string[] = [];
+    const spy = spyOn(console, "error").mockImplementation((...args) => { logged.push(args.join(" ")); });
+    let result;
+    try {
+      result = await validateRegistry({ root });
+    } finally {
+      spy.mockRestore();
+    }
+
+    const at = "\x1b[31m✗\x1b[0m route-skill → components/skills/route-skill/README.md: frontmatter tools";
+    expect(logged).toEqual([
+      `${at} — "@acme/map-tool" is not in registryDependencies`,
+      `${at} — "@acme/geo-agent" is a kitn:agent, not a kitn:tool`,
+      `${at} — "@acme/missing-tool" can't be resolved — "missing-tool" is not in the registry`,
+    ]);
+    expect(result.errors).toBe(3);
+  });
+});
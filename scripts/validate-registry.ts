@@ -8,56 +8,96 @@
  * work in the registry directory structure but not after `kitn add`.
  */
 
-import { readdir, readFile } from "fs/promises";
-import { join, dirname, resolve, extname } from "path";
+import { readFile } from "fs/promises";
+import { join, dirname, resolve, extname, relative, posix } from "path";
+import { validateCronExpression } from "../src/cron.js";
+import { isBuiltinModule, packageNameFromSpecifier, parseDependencySpec } from "../src/dependencies.js";
+import { parseFrontmatter } from "../src/frontmatter.js";
+import { findCycles, findDependents, formatCycle, resolveInstallPlan } from "../src/resolve.js";
+import { isExternalRef, refKey } from "../src/registry-ref.js";
+import { findRelativeLinks, findSkillFile } from "../src/skill.js";
+import { loadExternalRegistries, resolveExternalDependencies, resolveExternalRef } from "./external-registries.js";
+import type { ExternalRegistry } from "./external-registries.js";
+import { componentTypeDirs, loadComponents, printProblems, typeToDir } from "./load-components.js";
+import { findSecretExposures, scanEnvReads, scanModuleReferences, scanRegistrations } from "./source-analysis.js";
+import type { RegisterFunction, Registration } from "./source-analysis.js";
+import type { ComponentType, Manifest, SkillMetadata } from "../src/schema.js";
 
 const ROOT = new URL("..", import.meta.url).pathname;
-const COMPONENTS_DIR = join(ROOT, "components");
 
-interface ComponentManifest {
-  name: string;
-  type: "kitn:agent" | "kitn:tool" | "kitn:skill" | "kitn:storage" | "kitn:cron";
-  files: string[];
-  registryDependencies?: string[];
-}
+// Type directories with an @kitn/<dir>/* alias. Packages install to their
+// own installDir and are imported through their @lib/<name> alias instead.
+const knownAliasTypes = new Set(componentTypeDirs.filter((dir) => dir !== typeToDir["kitn:package"]));
 
-const typeToDir: Record<string, string> = {
-  "kitn:agent": "agents",
-  "kitn:tool": "tools",
-  "kitn:skill": "skills",
-  "kitn:storage": "storage",
-  "kitn:cron": "crons",
+// The register* call each component type must make, exactly once
+const registerFunctionFor: Partial<Record<ComponentType, RegisterFunction>> = {
+  "kitn:agent": "registerAgent",
+  "kitn:tool": "registerTool",
+  "kitn:cron": "registerCron",
 };
 
-// Extract relative import paths from a TypeScript source file.
-// Matches: import ... from "./path" and export ... from "./path"
-function extractRelativeImports(source: string): string[] {
-  const imports: string[] = [];
-  const pattern = /(?:import|export)\s+[\s\S]*?\s+from\s+["'](\.[^"']+)["']/g;
-  let match;
-  while ((match = pattern.exec(source)) !== null) {
-    imports.push(match[1]);
+// Installed path a @kitn/ alias, relative or package-alias import points at
+function resolveInstalledTarget(specifier: string, fromInstalledPath: string, aliases: PackageAlias[]): string | undefined {
+  if (specifier.startsWith(".")) return resolveImportToFile(specifier, fromInstalledPath);
+  if (specifier.startsWith("@kitn/")) {
+    const target = specifier.slice("@kitn/".length);
+    return target.endsWith(".js") ? target.slice(0, -3) + ".ts" : target;
   }
-  return imports;
+  return resolvePackageAlias(specifier, aliases)?.target;
 }
 
-// Extract @kitn/<type>/<path> alias imports.
-// Returns array of { type, path } for known types.
-function extractKitnAliasImports(source: string): Array<{ type: string; path: string }> {
-  const imports: Array<{ type: string; path: string }> = [];
-  const pattern = /(?:import|export)\s+[\s\S]*?\s+from\s+["']@kitn\/([\w-]+)\/([^"']+)["']/g;
-  let match;
-  while ((match = pattern.exec(source)) !== null) {
-    if (knownAliasTypes.has(match[1])) {
-      // Reverse lookup: alias name → type directory
-      imports.push({ type: match[1], path: match[2] });
-    }
+interface NpmUsage {
+  /** Imported as a value somewhere, not just for types */
+  runtime: boolean;
+  /** First runtime import, or the first import when all are type-only */
+  location: string;
+}
+
+// Package names from manifest dependency specs ("zod@^3" → "zod")
+function declaredPackages(specs: string[] = []): Set<string> {
+  return new Set(specs.map((spec) => parseDependencySpec(spec)?.name ?? spec));
+}
+
+// Where a component's files land, relative to the project root.
+// Packages choose their own installDir; everything else goes in its type directory.
+function installDirFor(manifest: Manifest): string | undefined {
+  if (manifest.type === "kitn:package") {
+    return manifest.installDir?.replace(/^\.\//, "").replace(/\/+$/, "");
   }
-  return imports;
+  return typeToDir[manifest.type];
+}
+
+interface PackageAlias {
+  /** tsconfig paths key, e.g. "@acme/utils/*" */
+  pattern: string;
+  /** Installed targets with "./" stripped, e.g. "lib/acme-utils/*" */
+  targets: string[];
+  /** Package that declares the alias */
+  owner: string;
 }
 
-// Invert typeToDir for alias lookups: "agents" → "agents", etc.
-const knownAliasTypes = new Set(Object.values(typeToDir));
+// Installed path an aliased import points at, or undefined when no alias matches
+function resolvePackageAlias(specifier: string, aliases: PackageAlias[]): { target: string; alias: PackageAlias } | undefined {
+  for (const alias of aliases) {
+    const star = alias.pattern.indexOf("*");
+    let rest: string;
+    if (star === -1) {
+      if (specifier !== alias.pattern) continue;
+      rest = "";
+    } else {
+      const prefix = alias.pattern.slice(0, star);
+      const suffix = alias.pattern.slice(star + 1);
+      if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue;
+      rest = specifier.slice(prefix.length, specifier.length - suffix.length);
+    }
+    let target = alias.targets[0].replace("*", rest);
+    if (target.endsWith(".js")) {
+      target = target.slice(0, -3) + ".ts";
+    }
+    return { target, alias };
+  }
+  return undefined;
+}
 
 // Given a .js import specifier, find the corresponding .ts file path
 // e.g. "../tools/weather.js" → "tools/weather.ts"
@@ -76,98 +116,176 @@ function resolveImportToFile(
   return resolved;
 }
 
-async function main() {
+// Problem with a skill's frontmatter tool from another registry. It's matched
+// to registryDependencies by namespace and name, so either may carry a range.
+function externalToolProblem(tool: string, manifest: Manifest, registries: Map<string, ExternalRegistry>): string | undefined {
+  const dependency = manifest.registryDependencies?.find((dep) => isExternalRef(dep) && refKey(dep) === refKey(tool));
+  const resolution = resolveExternalRef(dependency ?? tool, registries);
+  if ("error" in resolution) return `can't be resolved — ${resolution.error}`;
+  if (resolution.item.type !== "kitn:tool") return `is a ${resolution.item.type}, not a kitn:tool`;
+  return dependency ? undefined : "is not in registryDependencies";
+}
+
+export interface ValidateOptions {
+  /** Repo root — defaults to the directory above scripts/ */
+  root?: string;
+  /** Only check these components and the components that directly depend on them */
+  only?: string[];
+}
+
+export interface ValidationResult {
+  errors: number;
+  /** Problems worth fixing that don't fail validation, e.g. unused dependencies */
+  warnings: number;
+  filesChecked: number;
+  importsChecked: number;
+  componentsChecked: number;
+}
+
+// Runs every validation phase, printing each problem as it is found
+export async function validateRegistry(options: ValidateOptions = {}): Promise<ValidationResult> {
   // Phase 1: Build the installed layout map
   // Maps installed path (e.g. "agents/weather-agent.ts") → component name
   const installedFiles = new Map<string, string>();
   // Maps component name → manifest
-  const manifests = new Map<string, ComponentManifest>();
+  const manifests = new Map<string, Manifest>();
+  // Maps component name → its files with globs expanded
+  const componentFiles = new Map<string, string[]>();
   // Maps installed path → source content
   const fileContents = new Map<string, string>();
+  // Maps installed path → source file relative to the repo root, for locations
+  const sourcePaths = new Map<string, string>();
 
-  for (const typeDir of ["agents", "tools", "skills", "storage", "crons"]) {
-    const dir = join(COMPONENTS_DIR, typeDir);
-    let entries: string[];
-    try {
-      entries = await readdir(dir);
-    } catch {
-      continue;
-    }
-
-    for (const entry of entries) {
-      const manifestPath = join(dir, entry, "manifest.json");
-      let manifestRaw: string;
-      try {
-        manifestRaw = await readFile(manifestPath, "utf-8");
-      } catch {
-        continue;
-      }
+  const root = options.root ?? ROOT;
+  const { components, problems: manifestProblems } = await loadComponents(root);
+  const { registries, problems: configProblems } = await loadExternalRegistries(root);
+  const problems = [...manifestProblems, ...configProblems];
+  if (problems.length > 0) {
+    printProblems(problems);
+    return { errors: problems.length, warnings: 0, filesChecked: 0, importsChecked: 0, componentsChecked: 0 };
+  }
+  // Unresolvable references are reported in phase 3
+  const external = resolveExternalDependencies(root, components, registries).resolved;
 
-      const manifest: ComponentManifest = JSON.parse(manifestRaw);
-      manifests.set(manifest.name, manifest);
-      const installDir = typeToDir[manifest.type];
+  // tsconfig path aliases contributed by packages
+  const packageAliases: PackageAlias[] = [];
 
-      for (const fileName of manifest.files) {
-        const installedPath = `${installDir}/${fileName}`;
-        installedFiles.set(installedPath, manifest.name);
+  for (const { manifest, dir, files } of components) {
+    manifests.set(manifest.name, manifest);
+    componentFiles.set(manifest.name, files);
+    const installDir = installDirFor(manifest);
+    if (!installDir) continue;
 
-        const source = await readFile(join(dir, entry, fileName), "utf-8");
-        fileContents.set(installedPath, source);
-      }
+    for (const [pattern, targets] of Object.entries(manifest.tsconfig ?? {})) {
+      if (targets.length === 0) continue;
+      packageAliases.push({ pattern, targets: targets.map((t) => t.replace(/^\.\//, "")), owner: manifest.name });
+    }
+
+    for (const fileName of files) {
+      const installedPath = `${installDir}/${fileName}`;
+      installedFiles.set(installedPath, manifest.name);
+
+      const source = await readFile(join(dir, fileName), "utf-8");
+      fileContents.set(installedPath, source);
+      sourcePaths.set(installedPath, relative(root, join(dir, fileName)));
     }
   }
 
+  // Narrow to the requested components, plus their dependents whose imports may now break
+  const graph = { items: [...manifests.values()] };
+  const checked = new Set(options.only ?? manifests.keys());
+  for (const name of options.only ?? []) {
+    for (const dependent of findDependents(graph, name)) checked.add(dependent);
+  }
+
   // Phase 2: Validate imports
+  // Maps component name → npm packages it imports, and where
+  const npmImports = new Map<string, Map<string, NpmUsage>>();
   let errors = 0;
+  let warnings = 0;
   let filesChecked = 0;
   let importsChecked = 0;
 
   for (const [installedPath, componentName] of installedFiles) {
+    if (!checked.has(componentName)) continue;
     // Skip non-TypeScript files (skills are .md)
     if (extname(installedPath) !== ".ts") continue;
 
     const source = fileContents.get(installedPath)!;
     filesChecked++;
 
-    // Validate @kitn/<type>/<path> alias imports (the canonical form)
-    const aliasImports = extractKitnAliasImports(source);
-    for (const { type, path: importedPath } of aliasImports) {
-      importsChecked++;
-      let resolvedTarget = `${type}/${importedPath}`;
-      // Replace .js extension with .ts for resolution
-      if (resolvedTarget.endsWith(".js")) {
-        resolvedTarget = resolvedTarget.slice(0, -3) + ".ts";
-      }
+    const fromDir = dirname(installedPath);
+    // Snapshots of other registries list components, not their files, so any
+    // import into the type directory of an external dependency is trusted
+    const externalDirs = new Set(Object.values(external.get(componentName) ?? {}).map((dep) => typeToDir[dep.type]));
 
-      if (!installedFiles.has(resolvedTarget)) {
-        errors++;
-        console.error(
-          `\x1b[31m✗\x1b[0m ${componentName} → ${installedPath}`,
-        );
-        console.error(
-          `  import "@kitn/${type}/${importedPath}" resolves to "${resolvedTarget}" which is not in the registry`,
-        );
-        console.error();
+    for (const { specifier, typeOnly, line, column } of scanModuleReferences(source, installedPath)) {
+      const location = `${componentName} → ${sourcePaths.get(installedPath)}:${line}:${column}`;
+
+      // Validate @kitn/<type>/<path> alias imports (the canonical form)
+      if (specifier.startsWith("@kitn/")) {
+        const [, type, ...rest] = specifier.split("/");
+        if (!knownAliasTypes.has(type) || rest.length === 0) continue;
+        importsChecked++;
+        let resolvedTarget = `${type}/${rest.join("/")}`;
+        // Replace .js extension with .ts for resolution
+        if (resolvedTarget.endsWith(".js")) {
+          resolvedTarget = resolvedTarget.slice(0, -3) + ".ts";
+        }
+
+        if (!installedFiles.has(resolvedTarget) && !externalDirs.has(type)) {
+          errors++;
+          console.error(`\x1b[31m✗\x1b[0m ${location}`);
+          console.error(
+            `  import "${specifier}" resolves to "${resolvedTarget}" which is not in the registry`,
+          );
+          console.error();
+        }
+        continue;
       }
-    }
 
-    // Validate relative imports
-    const relativeImports = extractRelativeImports(source);
-    const fromDir = dirname(installedPath);
+      // Validate imports of package tsconfig aliases
+      if (!specifier.startsWith(".")) {
+        const resolved = resolvePackageAlias(specifier, packageAliases);
+        if (!resolved) {
+          // Anything else bare is an npm package, checked against the manifest in phase 4
+          if (!isBuiltinModule(specifier)) {
+            const used = npmImports.get(componentName) ?? new Map<string, NpmUsage>();
+            npmImports.set(componentName, used);
+            const name = packageNameFromSpecifier(specifier);
+            const usage = used.get(name) ?? { runtime: false, location };
+            if (!typeOnly && !usage.runtime) {
+              usage.runtime = true;
+              usage.location = location;
+            }
+            used.set(name, usage);
+          }
+          continue;
+        }
+        importsChecked++;
 
-    for (const importPath of relativeImports) {
+        if (!installedFiles.has(resolved.target)) {
+          errors++;
+          console.error(`\x1b[31m✗\x1b[0m ${location}`);
+          console.error(
+            `  import "${specifier}" (alias "${resolved.alias.pattern}" from ${resolved.alias.owner}) resolves to "${resolved.target}" which is not in the registry`,
+          );
+          console.error();
+        }
+        continue;
+      }
+
+      // Validate relative imports
       importsChecked++;
-      const resolvedTarget = resolveImportToFile(importPath, installedPath);
+      const resolvedTarget = resolveImportToFile(specifier, installedPath);
       const targetDir = dirname(resolvedTarget);
 
       // Flag relative cross-type imports — these should be @kitn/ aliases
       if (targetDir !== fromDir && knownAliasTypes.has(targetDir)) {
         errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${location}`);
         console.error(
-          `\x1b[31m✗\x1b[0m ${componentName} → ${installedPath}`,
-        );
-        console.error(
-          `  relative cross-type import "${importPath}" should use @kitn/ alias instead`,
+          `  relative cross-type import "${specifier}" should use @kitn/ alias instead`,
         );
         console.error(
           `  \x1b[33mhint\x1b[0m: use "@kitn/${targetDir}/${resolvedTarget.split("/").pop()?.replace(".ts", ".js")}" instead`,
@@ -178,11 +296,9 @@ async function main() {
 
       if (!installedFiles.has(resolvedTarget)) {
         errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${location}`);
         console.error(
-          `\x1b[31m✗\x1b[0m ${componentName} → ${installedPath}`,
-        );
-        console.error(
-          `  import "${importPath}" resolves to "${resolvedTarget}" which is not in the registry`,
+          `  import "${specifier}" resolves to "${resolvedTarget}" which is not in the registry`,
         );
 
         // Suggest the correct component if we can find a partial match
@@ -211,23 +327,266 @@ async function main() {
     }
   }
 
-  // Phase 3: Validate registryDependencies point to real components
+  // Phase 3: Validate registryDependencies point to real, current components —
+  // in this registry, or in a snapshot of the registry their namespace names
+  // Maps old name → the component that was renamed from it
+  const renamedTo = new Map<string, string>();
+  for (const manifest of manifests.values()) {
+    for (const oldName of manifest.renamedFrom ?? []) renamedTo.set(oldName, manifest.name);
+  }
+
   for (const [name, manifest] of manifests) {
+    if (!checked.has(name)) continue;
     for (const dep of manifest.registryDependencies ?? []) {
-      if (!manifests.has(dep)) {
+      if (isExternalRef(dep)) {
+        const resolution = resolveExternalRef(dep, registries);
+        if ("error" in resolution) {
+          errors++;
+          console.error(`\x1b[31m✗\x1b[0m ${name}: registryDependency "${dep}" can't be resolved — ${resolution.error}`);
+          if (resolution.hint) console.error(`  \x1b[33mhint\x1b[0m: ${resolution.hint}`);
+        } else if (resolution.item.deprecated && !manifest.deprecated) {
+          warnings++;
+          console.error(`\x1b[33m!\x1b[0m ${name}: registryDependency "${dep}" is deprecated — ${resolution.item.deprecated.message}`);
+        }
+        continue;
+      }
+
+      const target = manifests.get(dep);
+      if (!target) {
         errors++;
         console.error(
           `\x1b[31m✗\x1b[0m ${name}: registryDependency "${dep}" does not exist in the registry`,
         );
+        const newName = renamedTo.get(dep);
+        if (newName) console.error(`  \x1b[33mhint\x1b[0m: "${dep}" was renamed to "${newName}"`);
+        continue;
+      }
+
+      // Deprecated components still install, so depending on one is a warning
+      if (target.deprecated && !manifest.deprecated) {
+        warnings++;
+        console.error(`\x1b[33m!\x1b[0m ${name}: registryDependency "${dep}" is deprecated — ${target.deprecated.message}`);
+        if (target.deprecated.replacement) {
+          console.error(`  \x1b[33mhint\x1b[0m: depend on "${target.deprecated.replacement}" instead`);
+        }
+      }
+    }
+  }
+
+  // Phase 4: Compare npm imports with dependencies / devDependencies
+  for (const [name, manifest] of manifests) {
+    if (!checked.has(name)) continue;
+    const used = npmImports.get(name) ?? new Map<string, NpmUsage>();
+    const dependencies = declaredPackages(manifest.dependencies);
+    const devDependencies = declaredPackages(manifest.devDependencies);
+
+    for (const [pkg, { runtime, location }] of used) {
+      if (!dependencies.has(pkg) && !devDependencies.has(pkg)) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${location}`);
+        console.error(`  imports "${pkg}" but it is not declared in dependencies`);
+        console.error(`  \x1b[33mhint\x1b[0m: add "${pkg}" to dependencies in manifest.json`);
+        console.error();
+      } else if (runtime && !dependencies.has(pkg)) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${location}`);
+        console.error(`  imports "${pkg}" at runtime but it is only in devDependencies — move it to dependencies`);
+        console.error();
+      } else if (!runtime && dependencies.has(pkg)) {
+        warnings++;
+        console.error(`\x1b[33m!\x1b[0m ${location}`);
+        console.error(`  "${pkg}" is only used for types — move it to devDependencies`);
+        console.error();
+      }
+    }
+
+    // @types/* packages are picked up by the compiler, never imported
+    for (const pkg of [...dependencies, ...devDependencies]) {
+      if (used.has(pkg) || pkg.startsWith("@types/")) continue;
+      warnings++;
+      const field = dependencies.has(pkg) ? "dependencies" : "devDependencies";
+      console.error(`\x1b[33m!\x1b[0m ${name}: "${pkg}" is in ${field} but never imported`);
+    }
+  }
+
+  // Phase 5: Compare environment variable reads with envVars
+  for (const [name, manifest] of manifests) {
+    if (!checked.has(name)) continue;
+    const declared = manifest.envVars ?? {};
+    const secrets = Object.keys(declared).filter((key) => declared[key].secret);
+    const read = new Set<string>();
+    const installDir = installDirFor(manifest);
+
+    for (const fileName of componentFiles.get(name)!) {
+      const installedPath = `${installDir}/${fileName}`;
+      const source = fileContents.get(installedPath);
+      if (source === undefined || extname(installedPath) !== ".ts") continue;
+      const at = (line: number, column: number) => `${name} → ${sourcePaths.get(installedPath)}:${line}:${column}`;
+
+      for (const { name: variable, via, line, column } of scanEnvReads(source, installedPath)) {
+        if (read.has(variable)) continue;
+        read.add(variable);
+        if (declared[variable]) continue;
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${at(line, column)}`);
+        console.error(`  reads ${via === "Deno.env.get" ? `Deno.env.get("${variable}")` : `${via}.${variable}`} but "${variable}" is not declared in envVars`);
+        console.error();
+      }
+
+      for (const { name: variable, kind, line, column } of findSecretExposures(source, secrets, installedPath)) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${at(line, column)}`);
+        console.error(`  secret env var "${variable}" is ${kind} — secrets must never be logged or returned`);
+        console.error();
+      }
+    }
+
+    for (const variable of Object.keys(declared)) {
+      if (read.has(variable)) continue;
+      warnings++;
+      console.error(`\x1b[33m!\x1b[0m ${name}: env var "${variable}" is in envVars but never read`);
+    }
+  }
+
+  // Phase 6: Check register* calls against the manifest
+  for (const [name, manifest] of manifests) {
+    if (!checked.has(name)) continue;
+    const expected = registerFunctionFor[manifest.type];
+    const installDir = installDirFor(manifest);
+    const found: Array<Registration & { location: string }> = [];
+
+    for (const fileName of componentFiles.get(name)!) {
+      const installedPath = `${installDir}/${fileName}`;
+      const source = fileContents.get(installedPath);
+      if (source === undefined || extname(installedPath) !== ".ts") continue;
+      for (const registration of scanRegistrations(source, installedPath)) {
+        const location = `${name} → ${sourcePaths.get(installedPath)}:${registration.line}:${registration.column}`;
+        found.push({ ...registration, location });
+
+        // Tools an agent binds must be installed with it
+        for (const tool of registration.tools ?? []) {
+          const target = tool.specifier && resolveInstalledTarget(tool.specifier, installedPath, packageAliases);
+          const owner = target && installedFiles.get(target);
+          if (!owner || owner === name || manifest.registryDependencies?.includes(owner)) continue;
+          errors++;
+          console.error(`\x1b[31m✗\x1b[0m ${name} → ${sourcePaths.get(installedPath)}:${tool.line}:${tool.column}`);
+          console.error(`  tool "${tool.key}" comes from ${owner}, which is not in registryDependencies`);
+          console.error(`  \x1b[33mhint\x1b[0m: add "${owner}" to registryDependencies in manifest.json`);
+          console.error();
+        }
+      }
+    }
+
+    for (const registration of found) {
+      if (registration.fn !== expected) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${registration.location}`);
+        console.error(`  ${registration.fn}() in a ${manifest.type} component — give it its own component`);
+        console.error();
+        continue;
+      }
+
+      if (registration.name !== undefined && registration.name !== manifest.name) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${registration.location}`);
+        console.error(`  registers as "${registration.name}" but manifest.json name is "${manifest.name}"`);
+        console.error();
+      }
+      if (registration.description !== undefined && registration.description !== manifest.description) {
+        warnings++;
+        console.error(`\x1b[33m!\x1b[0m ${registration.location}`);
+        console.error(`  description "${registration.description}" differs from manifest.json "${manifest.description}"`);
+        console.error();
+      }
+
+      const problems = registration.schedule === undefined ? [] : validateCronExpression(registration.schedule);
+      if (problems.length > 0) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m ${registration.location}`);
+        console.error(`  invalid cron schedule "${registration.schedule}"`);
+        for (const problem of problems) console.error(`  ${problem}`);
+        console.error();
       }
     }
+
+    if (!expected) continue;
+    const own = found.filter((registration) => registration.fn === expected);
+    if (own.length === 0) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m ${name}: ${manifest.type.replace("kitn:", "")} components must call ${expected}() from @kitn/core`);
+    } else if (own.length > 1) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m ${name}: ${expected}() is called ${own.length} times — a component must register exactly once`);
+      for (const registration of own) console.error(`  at ${registration.location.split(" → ")[1]}`);
+    }
   }
 
+  // Phase 7: Check skill markdown links and the tools its frontmatter names
+  for (const [name, manifest] of manifests) {
+    if (!checked.has(name) || manifest.type !== "kitn:skill") continue;
+    const files = componentFiles.get(name)!;
+    const skillFile = findSkillFile(files)!;
+    const installedPath = `${installDirFor(manifest)}/${skillFile}`;
+    const { frontmatter, body, bodyLine } = parseFrontmatter(fileContents.get(installedPath)!);
+
+    for (const link of findRelativeLinks(body, bodyLine)) {
+      const target = posix.normalize(posix.join(posix.dirname(skillFile), link.target));
+      if (files.includes(target)) continue;
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m ${name} → ${sourcePaths.get(installedPath)}:${link.line}:${link.column}`);
+      console.error(`  link to "${link.target}" does not match any file in the component`);
+      console.error(`  \x1b[33mhint\x1b[0m: fix the path or add the file to "files" in manifest.json`);
+      console.error();
+    }
+
+    for (const tool of (frontmatter as SkillMetadata).tools ?? []) {
+      const type = manifests.get(tool)?.type;
+      const problem =
+        isExternalRef(tool) ? externalToolProblem(tool, manifest, registries)
+        : type === undefined ? "is not a component in this registry"
+        : type !== "kitn:tool" ? `is a ${type}, not a kitn:tool`
+        : !manifest.registryDependencies?.includes(tool) ? "is not in registryDependencies"
+        : undefined;
+      if (!problem) continue;
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m ${name} → ${sourcePaths.get(installedPath)}: frontmatter tools — "${tool}" ${problem}`);
+    }
+  }
+
+  // Phase 8: Detect cycles and slot conflicts across the dependency graph
+  for (const cycle of findCycles(graph)) {
+    errors++;
+    console.error(`\x1b[31m✗\x1b[0m dependency cycle: ${formatCycle(cycle)}`);
+  }
+
+  const reportedConflicts = new Set<string>();
+  for (const name of checked) {
+    for (const { slot, components } of resolveInstallPlan(graph, name).slotConflicts) {
+      const key = `${slot}:${[...components].sort().join(",")}`;
+      if (reportedConflicts.has(key)) continue;
+      reportedConflicts.add(key);
+      errors++;
+      console.error(
+        `\x1b[31m✗\x1b[0m ${name}: installing it pulls in ${components.join(", ")}, which all claim slot "${slot}"`,
+      );
+    }
+  }
+
+  return { errors, warnings, filesChecked, importsChecked, componentsChecked: checked.size };
+}
+
+async function main() {
+  const { errors, warnings, filesChecked, importsChecked, componentsChecked } = await validateRegistry();
+
   // Summary
   console.log(
-    `\nValidated ${filesChecked} files, ${importsChecked} imports, ${manifests.size} components`,
+    `\nValidated ${filesChecked} files, ${importsChecked} imports, ${componentsChecked} components`,
   );
 
+  if (warnings > 0) {
+    console.log(`\x1b[33m! ${warnings} warning(s)\x1b[0m`);
+  }
+
   if (errors > 0) {
     console.error(`\n\x1b[31m✗ ${errors} error(s) found\x1b[0m`);
     process.exit(1);
@@ -236,7 +595,9 @@ async function main() {
   }
 }
 
-main().catch((err) => {
-  console.error(err);
-  process.exit(1);
-});
+if (import.meta.main) {
+  main().catch((err) => {
+    console.error(err);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,201 @@
+/**
+ * Re-hashes every built registry item in r/ and checks it against the
+ * integrity digests recorded at build time.
+ *
+ * Run: bun run verify [--public-key <key>]
+ *
+ * Catches hand-edited or corrupted JSON in r/ before it is published,
+ * and an index whose integrity no longer matches the latest item.
+ *
+ * When r/signatures.json exists, every file's signature is checked too.
+ * Pass the public key you expect (or set KITN_PUBLIC_KEY) to pin it;
+ * otherwise the key embedded in signatures.json is trusted as-is.
+ */
+
+import { readdir, readFile } from "fs/promises";
+import { join } from "path";
+import {
+  registryIndexSchema,
+  registryItemDiffSchema,
+  registryItemSchema,
+  registryRedirectSchema,
+  searchIndexSchema,
+  signatureManifestSchema,
+} from "../src/schema.js";
+import { verifyItemIntegrity } from "../src/integrity.js";
+import { SIGNATURE_MANIFEST_FILE, verifySignedFile } from "../src/signing.js";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+const OUTPUT_DIR = join(ROOT, "r");
+
+async function main() {
+  let errors = 0;
+  let warnings = 0;
+  let itemsChecked = 0;
+  // Maps component name → integrity of the latest (unversioned) item file
+  const latestIntegrity = new Map<string, string | undefined>();
+  // Redirect stubs left by renames, checked against the index below
+  const redirects: Array<{ relPath: string; redirect: string }> = [];
+
+  const jsonFiles = (await readdir(OUTPUT_DIR, { recursive: true }))
+    .filter((f) => f.endsWith(".json") && f !== SIGNATURE_MANIFEST_FILE)
+    .sort();
+
+  for (const relPath of jsonFiles.filter((f) => f !== "registry.json" && f !== "search-index.json")) {
+    const raw = await readFile(join(OUTPUT_DIR, relPath), "utf-8");
+
+    // Published version diffs (build --diffs) carry no integrity of their own
+    if (relPath.endsWith(".diff.json")) {
+      if (!registryItemDiffSchema.safeParse(JSON.parse(raw)).success) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m r/${relPath}: not a valid version diff`);
+      }
+      continue;
+    }
+
+    const json = JSON.parse(raw);
+    const redirect = registryRedirectSchema.safeParse(json);
+    if (redirect.success) {
+      redirects.push({ relPath, redirect: redirect.data.redirect });
+      continue;
+    }
+
+    const parsed = registryItemSchema.safeParse(json);
+    if (!parsed.success) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m r/${relPath}: not a valid registry item`);
+      console.error(`  ${parsed.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("\n  ")}`);
+      console.error();
+      continue;
+    }
+
+    const item = parsed.data;
+    itemsChecked++;
+    if (!relPath.includes("@")) latestIntegrity.set(item.name, item.integrity);
+
+    if (!item.integrity) {
+      warnings++;
+      console.warn(`\x1b[33m!\x1b[0m r/${relPath}: no integrity recorded (built before integrity hashes)`);
+      continue;
+    }
+
+    for (const mismatch of verifyItemIntegrity(item)) {
+      errors++;
+      const target = mismatch.path ? `file "${mismatch.path}"` : "item";
+      console.error(`\x1b[31m✗\x1b[0m r/${relPath}: ${target} integrity mismatch`);
+      console.error(`  expected ${mismatch.expected ?? "(none)"}`);
+      console.error(`  actual   ${mismatch.actual}`);
+      console.error();
+    }
+  }
+
+  // The index must advertise the same digest as each latest item
+  const index = registryIndexSchema.parse(
+    JSON.parse(await readFile(join(OUTPUT_DIR, "registry.json"), "utf-8")),
+  );
+  for (const indexItem of index.items) {
+    if (!latestIntegrity.has(indexItem.name)) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m r/registry.json: "${indexItem.name}" has no item file`);
+      continue;
+    }
+    const expected = latestIntegrity.get(indexItem.name);
+    if (indexItem.integrity !== expected) {
+      errors++;
+      console.error(
+        `\x1b[31m✗\x1b[0m r/registry.json: "${indexItem.name}" integrity ${indexItem.integrity ?? "(none)"} does not match item ${expected ?? "(none)"}`,
+      );
+    }
+  }
+
+  // The search index must cover exactly the components in the index
+  if (jsonFiles.includes("search-index.json")) {
+    const search = searchIndexSchema.safeParse(JSON.parse(await readFile(join(OUTPUT_DIR, "search-index.json"), "utf-8")));
+    const expected = index.items.map((item) => item.name).join(", ");
+    if (!search.success) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m r/search-index.json: not a valid search index`);
+    } else if (search.data.documents.map((doc) => doc.name).join(", ") !== expected) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m r/search-index.json: documents do not match the components in r/registry.json — rebuild`);
+    }
+  }
+
+  // A redirect must land on a component that lists the old name
+  for (const { relPath, redirect } of redirects) {
+    const target = index.items.find((item) => item.name === redirect);
+    const oldName = relPath.split("/").pop()!.replace(/\.json$/, "");
+    if (!target?.renamedFrom?.includes(oldName)) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m r/${relPath}: redirects to "${redirect}", which was not renamed from "${oldName}"`);
+    }
+  }
+
+  // Detached signatures
+  const keyFlag = process.argv.indexOf("--public-key");
+  const pinnedKey = keyFlag !== -1 ? process.argv[keyFlag + 1] : process.env.KITN_PUBLIC_KEY;
+  let signaturesChecked = 0;
+
+  let signaturesRaw: string | undefined;
+  try {
+    signaturesRaw = await readFile(join(OUTPUT_DIR, SIGNATURE_MANIFEST_FILE), "utf-8");
+  } catch {
+    if (pinnedKey) {
+      errors++;
+      console.error(`\x1b[31m✗\x1b[0m r/${SIGNATURE_MANIFEST_FILE} is missing but a public key was pinned`);
+    }
+  }
+
+  if (signaturesRaw !== undefined) {
+    const signatures = signatureManifestSchema.parse(JSON.parse(signaturesRaw));
+    if (!pinnedKey) {
+      warnings++;
+      console.warn(
+        `\x1b[33m!\x1b[0m no public key pinned — checking against the key in r/${SIGNATURE_MANIFEST_FILE} (${signatures.publicKey})`,
+      );
+    }
+    const trustedKey = pinnedKey ?? signatures.publicKey;
+
+    for (const relPath of jsonFiles) {
+      signaturesChecked++;
+      const bytes = await readFile(join(OUTPUT_DIR, relPath));
+      const check = verifySignedFile(signatures, relPath, bytes, trustedKey);
+      if (!check.ok) {
+        errors++;
+        const reason = {
+          "untrusted-key": `signed by ${signatures.publicKey}, expected ${trustedKey}`,
+          unsigned: "has no signature",
+          "bad-signature": "signature does not match its contents",
+        }[check.reason];
+        console.error(`\x1b[31m✗\x1b[0m r/${relPath}: ${reason}`);
+      }
+    }
+
+    for (const relPath of Object.keys(signatures.signatures)) {
+      if (!jsonFiles.includes(relPath)) {
+        errors++;
+        console.error(`\x1b[31m✗\x1b[0m r/${SIGNATURE_MANIFEST_FILE}: signed file "${relPath}" does not exist`);
+      }
+    }
+  }
+
+  // Summary
+  console.log(
+    `\nVerified ${itemsChecked} items, ${index.items.length} index entries, ${signaturesChecked} signatures`,
+  );
+
+  if (warnings > 0) {
+    console.warn(`\x1b[33m! ${warnings} warning(s)\x1b[0m`);
+  }
+  if (errors > 0) {
+    console.error(`\n\x1b[31m✗ ${errors} error(s) found\x1b[0m`);
+    process.exit(1);
+  } else {
+    console.log(`\x1b[32m✓ All registry items match their integrity digests and signatures\x1b[0m`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "bun:test";
+import { isIsoDate, isMajorBump, lintChangelog } from "./changelog.js";
+import type { ChangelogEntry } from "./schema.js";
+
+const entry = (version: string, type: ChangelogEntry["type"] = "fix", date = "2025-01-01"): ChangelogEntry =>
+  ({ version, date, type, note: "Note" });
+
+describe("lintChangelog", () => {
+  it("accepts a consistent changelog", () => {
+    const changelog = [entry("2.0.0", "breaking"), entry("1.1.0", "feature"), entry("1.0.0", "initial")];
+    expect(lintChangelog("2.0.0", changelog, ["1.0.0", "1.1.0", "2.0.0"])).toEqual([]);
+  });
+
+  it("requires the newest entry to match the manifest version", () => {
+    expect(lintChangelog("1.0.0")).toEqual([
+      { field: "changelog", message: "has no entry for the current version 1.0.0" },
+    ]);
+    expect(lintChangelog("1.1.0", [entry("1.0.0")])).toEqual([{
+      field: "changelog[0].version",
+      message: `"1.0.0" does not match the manifest version "1.1.0" — the newest entry goes first`,
+    }]);
+  });
+
+  it("reports invalid versions and dates, duplicates and ordering", () => {
+    const changelog = [entry("1.2.0"), entry("1.3.0"), entry("1.2.0"), entry("one", "fix", "2025-02-30")];
+    expect(lintChangelog("1.2.0", changelog)).toEqual([
+      { field: "changelog[1].version", message: "1.3.0 is newer than 1.2.0 above it — list versions newest first" },
+      { field: "changelog[2].version", message: "1.2.0 is already listed at changelog[0]" },
+      { field: "changelog[3].date", message: `"2025-02-30" is not a valid date (YYYY-MM-DD)` },
+      { field: "changelog[3].version", message: `"one" is not a valid semver version` },
+    ]);
+  });
+
+  it("requires breaking changes to be major bumps", () => {
+    expect(lintChangelog("1.1.0", [entry("1.1.0", "breaking"), entry("1.0.0")])).toEqual([
+      { field: "changelog[0].type", message: "breaking change in 1.1.0 needs a major bump from 1.0.0" },
+    ]);
+    expect(lintChangelog("0.3.0", [entry("0.3.0", "breaking"), entry("0.2.5")])).toEqual([]);
+  });
+
+  it("requires an entry for every published version", () => {
+    expect(lintChangelog("1.1.0", [entry("1.1.0")], ["1.0.0", "1.1.0"])).toEqual([
+      { field: "changelog", message: "has no entry for published version 1.0.0" },
+    ]);
+  });
+});
+
+describe("isMajorBump", () => {
+  it("treats minor bumps below 1.0.0 as major", () => {
+    expect(isMajorBump("1.4.2", "2.0.0")).toBe(true);
+    expect(isMajorBump("1.4.2", "1.5.0")).toBe(false);
+    expect(isMajorBump("0.2.0", "0.3.0")).toBe(true);
+    expect(isMajorBump("0.2.0", "0.2.1")).toBe(false);
+    expect(isMajorBump("1.0.0-beta.1", "1.0.0")).toBe(false);
+  });
+});
+
+describe("isIsoDate", () => {
+  it("accepts only real YYYY-MM-DD dates", () => {
+    expect(isIsoDate("2024-02-29")).toBe(true);
+    for (const date of ["2023-02-29", "2025-13-01", "2025-1-01", "01/02/2025", "2025-01-01T00:00:00Z"]) {
+      expect(isIsoDate(date)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import { compareVersions, isValidVersion, parseVersion } from "./semver.js";
+import type { ChangelogEntry } from "./schema.js";
+
+/**
+ * Changelog linter shared by build and bump.
+ *
+ * A manifest's changelog is newest first, and must stay in step with its
+ * `version` and with what is already published in r/:
+ *
+ *   - every entry has a valid semver `version` and an ISO `date` (YYYY-MM-DD)
+ *   - the top entry is the manifest's current version
+ *   - versions are strictly descending, so none appears twice
+ *   - a `breaking` entry is a major bump over the entry below it
+ *   - every published version (name@version.json in r/) has an entry
+ */
+
+export interface ChangelogProblem {
+  /** Field path in manifest.json, e.g. changelog[1].date */
+  field: string;
+  message: string;
+}
+
+export function lintChangelog(
+  version: string,
+  changelog: ChangelogEntry[] = [],
+  publishedVersions: string[] = [],
+): ChangelogProblem[] {
+  const problems: ChangelogProblem[] = [];
+  // Maps version → index of the first entry that lists it
+  const seen = new Map<string, number>();
+  let previous: { version: string; index: number } | undefined;
+
+  if (changelog.length === 0) {
+    problems.push({ field: "changelog", message: `has no entry for the current version ${version}` });
+  } else if (changelog[0].version !== version) {
+    problems.push({
+      field: "changelog[0].version",
+      message: `"${changelog[0].version}" does not match the manifest version "${version}" — the newest entry goes first`,
+    });
+  }
+
+  for (const [index, entry] of changelog.entries()) {
+    const field = `changelog[${index}]`;
+
+    if (!isIsoDate(entry.date)) {
+      problems.push({ field: `${field}.date`, message: `"${entry.date}" is not a valid date (YYYY-MM-DD)` });
+    }
+
+    if (!isValidVersion(entry.version)) {
+      problems.push({ field: `${field}.version`, message: `"${entry.version}" is not a valid semver version` });
+      continue;
+    }
+
+    const duplicate = seen.get(entry.version);
+    if (duplicate !== undefined) {
+      problems.push({ field: `${field}.version`, message: `${entry.version} is already listed at changelog[${duplicate}]` });
+      continue;
+    }
+    seen.set(entry.version, index);
+
+    if (previous && compareVersions(entry.version, previous.version) > 0) {
+      problems.push({
+        field: `${field}.version`,
+        message: `${entry.version} is newer than ${previous.version} above it — list versions newest first`,
+      });
+    }
+    previous = { version: entry.version, index };
+  }
+
+  // Compare each breaking entry with the next older valid one
+  for (const [index, entry] of changelog.entries()) {
+    if (entry.type !== "breaking" || !isValidVersion(entry.version)) continue;
+    const older = changelog.slice(index + 1).find((e) => isValidVersion(e.version));
+    if (older && compareVersions(entry.version, older.version) > 0 && !isMajorBump(older.version, entry.version)) {
+      problems.push({
+        field: `changelog[${index}].type`,
+        message: `breaking change in ${entry.version} needs a major bump from ${older.version}`,
+      });
+    }
+  }
+
+  for (const published of publishedVersions) {
+    if (!seen.has(published)) {
+      problems.push({ field: "changelog", message: `has no entry for published version ${published}` });
+    }
+  }
+
+  return problems;
+}
+
+// A major bump in semver terms. Below 1.0.0 a minor bump counts too, since
+// 0.x releases make no compatibility promises (0.2.0 → 0.3.0 may break).
+export function isMajorBump(from: string, to: string): boolean {
+  const a = parseVersion(from);
+  const b = parseVersion(to);
+  if (!a || !b) return false;
+  if (b.major !== a.major) return b.major > a.major;
+  return a.major === 0 && b.minor > a.minor;
+}
+
+// A real calendar date in YYYY-MM-DD form — "2025-02-30" is rejected
+export function isIsoDate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) return false;
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
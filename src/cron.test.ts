@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import { isValidCronExpression, validateCronExpression } from "./cron.js";
+
+describe("validateCronExpression", () => {
+  it("accepts standard expressions, names and macros", () => {
+    for (const expr of [
+      "* * * * *",
+      "*/15 * * * *",
+      "0 9 * * MON-FRI",
+      "0 0 1 jan,jul *",
+      "5,35 8-18/2 * * 1-5",
+      "0 0 * * 7",
+      "@daily",
+      "@hourly",
+    ]) {
+      expect(validateCronExpression(expr)).toEqual([]);
+    }
+  });
+
+  it("reports the wrong number of fields", () => {
+    expect(validateCronExpression("0 9 * *")).toEqual([
+      "expected 5 fields (minute hour day-of-month month day-of-week), got 4",
+    ]);
+    expect(isValidCronExpression("0 0 9 * * *")).toBe(false);
+  });
+
+  it("reports every bad field", () => {
+    expect(validateCronExpression("60 24 0 13 8")).toEqual([
+      "minute: 60 is out of range 0-59",
+      "hour: 24 is out of range 0-23",
+      "day-of-month: 0 is out of range 1-31",
+      "month: 13 is out of range 1-12",
+      "day-of-week: 8 is out of range 0-7",
+    ]);
+  });
+
+  it("rejects bad steps, ranges and names", () => {
+    expect(validateCronExpression("*/0 * * * *")).toEqual(['minute: step "0" must be a positive integer']);
+    expect(validateCronExpression("0 17-9 * * *")).toEqual(['hour: range "17-9" runs backwards']);
+    expect(validateCronExpression("0 0 * * MONDAY")).toEqual(['day-of-week: "MONDAY" is not a number or name']);
+    expect(validateCronExpression("0 0 * FEB * ")).toEqual([]);
+    expect(validateCronExpression("0,,5 * * * *")).toEqual(['minute: "" is not a valid value']);
+  });
+
+  it("rejects unknown macros", () => {
+    expect(validateCronExpression("@fortnightly")[0]).toStartWith('unknown macro "@fortnightly"');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Cron expression checking for kitn:cron components.
+ *
+ * Accepts the standard five-field form (minute hour day-of-month month
+ * day-of-week) with `*`, lists, ranges, steps and month/weekday names, plus
+ * the common `@hourly`-style macros. Returns every problem rather than the
+ * first so validation can report them together.
+ */
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  /** Upper-case aliases, mapped to `min + index` */
+  names?: string[];
+}
+
+const fields: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day-of-month", min: 1, max: 31 },
+  {
+    name: "month",
+    min: 1,
+    max: 12,
+    names: ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"],
+  },
+  // 7 is also Sunday
+  { name: "day-of-week", min: 0, max: 7, names: ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] },
+];
+
+export const cronMacros: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+// Problems with a cron expression — empty when it is valid
+export function validateCronExpression(expression: string): string[] {
+  const trimmed = expression.trim();
+  if (trimmed.startsWith("@")) {
+    return trimmed in cronMacros
+      ? []
+      : [`unknown macro "${trimmed}" (expected one of ${Object.keys(cronMacros).join(", ")})`];
+  }
+
+  const parts = trimmed.split(/\s+/).filter(Boolean);
+  if (parts.length !== fields.length) {
+    return [`expected ${fields.length} fields (minute hour day-of-month month day-of-week), got ${parts.length}`];
+  }
+
+  return parts.flatMap((part, i) => validateField(part, fields[i]));
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  return validateCronExpression(expression).length === 0;
+}
+
+function validateField(part: string, field: CronField): string[] {
+  const problems: string[] = [];
+  for (const item of part.split(",")) {
+    const [range, step, ...extra] = item.split("/");
+    if (extra.length > 0 || range === "" || step === "") {
+      problems.push(`${field.name}: "${item}" is not a valid value`);
+      continue;
+    }
+
+    if (step !== undefined && !(/^\d+$/.test(step) && Number(step) > 0)) {
+      problems.push(`${field.name}: step "${step}" must be a positive integer`);
+    }
+    if (range === "*") continue;
+
+    const bounds = range.split("-");
+    if (bounds.length > 2) {
+      problems.push(`${field.name}: "${range}" is not a valid range`);
+      continue;
+    }
+
+    const values = bounds.map((bound) => parseValue(bound, field));
+    for (const [j, value] of values.entries()) {
+      if (value === undefined) {
+        problems.push(`${field.name}: "${bounds[j]}" is not a number or name`);
+      } else if (value < field.min || value > field.max) {
+        problems.push(`${field.name}: ${bounds[j]} is out of range ${field.min}-${field.max}`);
+      }
+    }
+
+    const [start, end] = values;
+    if (start !== undefined && end !== undefined && start > end) {
+      problems.push(`${field.name}: range "${range}" runs backwards`);
+    }
+  }
+  return problems;
+}
+
+function parseValue(value: string, field: CronField): number | undefined {
+  if (/^\d+$/.test(value)) return Number(value);
+  const index = field.names?.indexOf(value.toUpperCase()) ?? -1;
+  return index === -1 ? undefined : field.min + index;
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "bun:test";
+import { isBuiltinModule, packageNameFromSpecifier, parseDependencySpec } from "./dependencies.js";
+
+describe("parseDependencySpec", () => {
+  it("splits names from optional ranges, including scoped packages", () => {
+    expect(parseDependencySpec("zod")).toEqual({ name: "zod" });
+    expect(parseDependencySpec("zod@^3")).toEqual({ name: "zod", range: "^3" });
+    expect(parseDependencySpec("@ai-sdk/openai")).toEqual({ name: "@ai-sdk/openai" });
+    expect(parseDependencySpec("@ai-sdk/openai@>=1.0.0 <2")).toEqual({ name: "@ai-sdk/openai", range: ">=1.0.0 <2" });
+  });
+
+  it("rejects malformed specs", () => {
+    for (const spec of ["", "zod@", "Zod", "@scope", "@/pkg", "./local", "a b"]) {
+      expect(parseDependencySpec(spec)).toBeNull();
+    }
+  });
+});
+
+describe("packageNameFromSpecifier", () => {
+  it("strips subpaths", () => {
+    expect(packageNameFromSpecifier("lodash/fp")).toBe("lodash");
+    expect(packageNameFromSpecifier("@ai-sdk/openai/internal")).toBe("@ai-sdk/openai");
+    expect(packageNameFromSpecifier("zod")).toBe("zod");
+  });
+});
+
+describe("isBuiltinModule", () => {
+  it("recognizes node and bun builtins", () => {
+    for (const specifier of ["fs", "fs/promises", "node:crypto", "path", "bun", "bun:sqlite"]) {
+      expect(isBuiltinModule(specifier)).toBe(true);
+    }
+    expect(isBuiltinModule("zod")).toBe(false);
+    expect(isBuiltinModule("fsevents")).toBe(false);
+  });
+});
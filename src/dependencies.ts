@@ -0,0 +1,42 @@
+import { builtinModules } from "node:module";
+
+/**
+ * npm dependency helpers shared by the manifest schema and validation.
+ *
+ * Manifests list dependencies as npm specs — a package name with an
+ * optional version range, the same form `npm install` accepts:
+ *
+ *   "zod"   "zod@^3"   "@ai-sdk/openai@>=1.0.0 <2"
+ */
+
+export interface DependencySpec {
+  name: string;
+  /** Version range, when the spec has one */
+  range?: string;
+}
+
+const PACKAGE_NAME = /^(?:@[a-z0-9][a-z0-9._~-]*\/)?[a-z0-9][a-z0-9._~-]*$/;
+
+export function parseDependencySpec(spec: string): DependencySpec | null {
+  // The version separator is the first "@" after the (optional) scope
+  const at = spec.indexOf("@", spec.startsWith("@") ? 1 : 0);
+  const name = at === -1 ? spec : spec.slice(0, at);
+  const range = at === -1 ? undefined : spec.slice(at + 1).trim();
+
+  if (!PACKAGE_NAME.test(name) || range === "") return null;
+  return range ? { name, range } : { name };
+}
+
+// The npm package a bare import specifier belongs to:
+// "@scope/pkg/sub/path" → "@scope/pkg", "lodash/fp" → "lodash"
+export function packageNameFromSpecifier(specifier: string): string {
+  const parts = specifier.split("/");
+  return specifier.startsWith("@") ? parts.slice(0, 2).join("/") : parts[0];
+}
+
+// Runtime-provided modules that never need declaring: node builtins
+// (with or without the node: prefix) and Bun's own modules
+export function isBuiltinModule(specifier: string): boolean {
+  if (specifier.startsWith("node:") || specifier === "bun" || specifier.startsWith("bun:")) return true;
+  return builtinModules.includes(packageNameFromSpecifier(specifier));
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "bun:test";
+import { countChangedLines, diffItemFiles, diffLines, diffRegistryItems, formatItemDiff, unifiedDiff } from "./diff.js";
+import type { RegistryItem } from "./schema.js";
+
+describe("diffLines", () => {
+  it("aligns unchanged lines and marks the rest", () => {
+    expect(diffLines(["a", "b", "c", "d"], ["a", "c", "x", "d"]).map((l) => `${l.mark}${l.text}`)).toEqual([
+      " a", "-b", " c", "+x", " d",
+    ]);
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("produces diff -u hunks with context", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n") + "\n";
+    const after = ["1", "2", "3", "4", "five", "6", "7", "8", "9", "10", "11"].join("\n") + "\n";
+    expect(unifiedDiff(before, after, { fromFile: "a/x.ts", toFile: "b/x.ts", context: 1 })).toBe([
+      "--- a/x.ts",
+      "+++ b/x.ts",
+      "@@ -4,3 +4,3 @@",
+      " 4",
+      "-5",
+      "+five",
+      " 6",
+      "@@ -10,1 +10,2 @@",
+      " 10",
+      "+11",
+      "",
+    ].join("\n"));
+  });
+
+  it("handles added files and identical content", () => {
+    expect(unifiedDiff("", "one\n", { fromFile: "/dev/null", toFile: "b/new.ts" })).toBe(
+      "--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,1 @@\n+one\n",
+    );
+    expect(unifiedDiff("same\n", "same\n")).toBe("");
+  });
+});
+
+describe("countChangedLines", () => {
+  it("counts the lines each side has that the other doesn't", () => {
+    expect(countChangedLines("one\ntwo\n", "one\nTWO\nthree\n")).toEqual({ added: 2, removed: 1 });
+    expect(countChangedLines("", "new\n")).toEqual({ added: 1, removed: 0 });
+    expect(countChangedLines("same\n", "same\n")).toEqual({ added: 0, removed: 0 });
+  });
+});
+
+describe("diffItemFiles", () => {
+  const file = (path: string, content: string) => ({ path, content, type: "kitn:tool" as const });
+
+  it("returns nothing for identical files", () => {
+    const item = { files: [file("tools/a.ts", "one\ntwo\n")] };
+    expect(diffItemFiles(item, item)).toEqual([]);
+  });
+
+  it("summarizes added, removed and modified files", () => {
+    const previous = { files: [file("tools/a.ts", "one\ntwo\n"), file("tools/b.ts", "gone\n")] };
+    const next = { files: [file("tools/a.ts", "one\nTWO\nthree\n"), file("tools/c.ts", "new\n")] };
+
+    expect(diffItemFiles(previous, next)).toEqual([
+      { path: "tools/a.ts", change: "modified", linesAdded: 2, linesRemoved: 1 },
+      { path: "tools/b.ts", change: "removed", linesAdded: 0, linesRemoved: 1 },
+      { path: "tools/c.ts", change: "added", linesAdded: 1, linesRemoved: 0 },
+    ]);
+  });
+});
+
+describe("diffRegistryItems", () => {
+  const item = (version: string, overrides: Partial<RegistryItem>): RegistryItem => ({
+    name: "weather-tool",
+    type: "kitn:tool",
+    description: "Weather",
+    version,
+    files: [],
+    ...overrides,
+  });
+
+  it("reports file patches and metadata changes", () => {
+    const from = item("0.1.0", {
+      dependencies: ["zod@^3", "ai"],
+      envVars: { API_KEY: { description: "Key" }, REGION: { description: "Region" } },
+      registryDependencies: ["http-tool"],
+      files: [
+        { path: "tools/weather.ts", content: "export const units = 'c';\n", type: "kitn:tool" },
+        { path: "tools/old.ts", content: "old\n", type: "kitn:tool" },
+      ],
+    });
+    const to = item("0.2.0", {
+      dependencies: ["zod@^4", "ai"],
+      envVars: { API_KEY: { description: "Key", secret: true } },
+      slot: "weather",
+      files: [{ path: "tools/weather.ts", content: "export const units = 'f';\n", type: "kitn:tool" }],
+    });
+
+    const diff = diffRegistryItems(from, to);
+    expect(diff.metadata).toEqual([
+      { field: "dependencies", key: "zod", change: "modified", before: "zod@^3", after: "zod@^4" },
+      { field: "envVars", key: "API_KEY", change: "modified", before: { description: "Key" }, after: { description: "Key", secret: true } },
+      { field: "envVars", key: "REGION", change: "removed", before: { description: "Region" } },
+      { field: "registryDependencies", key: "http-tool", change: "removed", before: "http-tool" },
+      { field: "slot", change: "added", before: undefined, after: "weather" },
+    ]);
+    expect(diff.files.map(({ path, change }) => [path, change])).toEqual([
+      ["tools/old.ts", "removed"],
+      ["tools/weather.ts", "modified"],
+    ]);
+    expect(diff.files[1].patch).toContain("-export const units = 'c';\n+export const units = 'f';");
+
+    const text = formatItemDiff(diff);
+    expect(text).toStartWith("weather-tool 0.1.0 → 0.2.0\n\nMetadata:\n  ~ dependencies zod: zod@^3 → zod@^4");
+    expect(text).toContain("  - registryDependencies http-tool: http-tool");
+    expect(text).toContain("--- a/tools/old.ts\n+++ /dev/null");
+  });
+
+  it("keys references to other registries without their range", () => {
+    const from = item("0.1.0", { registryDependencies: ["@acme/geo-tool@^1", "http-tool"] });
+    const to = item("0.2.0", { registryDependencies: ["@acme/geo-tool@^2", "http-tool"] });
+    expect(diffRegistryItems(from, to).metadata).toEqual([
+      { field: "registryDependencies", key: "@acme/geo-tool", change: "modified", before: "@acme/geo-tool@^1", after: "@acme/geo-tool@^2" },
+    ]);
+  });
+});
@@ -0,0 +1,244 @@
+import { parseDependencySpec } from "./dependencies.js";
+import { refKey } from "./registry-ref.js";
+import type { MetadataChange, RegistryItem, RegistryItemDiff } from "./schema.js";
+
+/**
+ * Line diffs and version-to-version diffs of registry items.
+ *
+ * `diffRegistryItems` compares two built items: a unified diff per file,
+ * and the metadata a consumer has to act on when upgrading —
+ * dependencies, envVars, registryDependencies and slot. `diffItemFiles`
+ * only summarizes which files changed, for the build's immutability check.
+ */
+
+export interface DiffLine {
+  mark: " " | "-" | "+";
+  text: string;
+}
+
+// Above this many LCS cells, the changed middle of a file is shown as one
+// block removed and re-added rather than aligned line by line
+const MAX_LCS_CELLS = 4_000_000;
+
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Unchanged head and tail are cheap to skip and usually most of a file
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let end = 0;
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    before[before.length - 1 - end] === after[after.length - 1 - end]
+  ) end++;
+
+  const a = before.slice(start, before.length - end);
+  const b = after.slice(start, after.length - end);
+  const lines: DiffLine[] = before.slice(0, start).map((text) => ({ mark: " ", text }));
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    lines.push(...a.map((text) => ({ mark: "-" as const, text })), ...b.map((text) => ({ mark: "+" as const, text })));
+  } else {
+    // Longest common subsequence table, filled from the end
+    const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        lines.push({ mark: " ", text: a[i++] });
+        j++;
+      } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+        lines.push({ mark: "-", text: a[i++] });
+      } else {
+        lines.push({ mark: "+", text: b[j++] });
+      }
+    }
+  }
+
+  lines.push(...before.slice(before.length - end).map((text) => ({ mark: " " as const, text })));
+  return lines;
+}
+
+// Lines added and removed between two file contents, for change summaries
+export function countChangedLines(before: string, after: string): { added: number; removed: number } {
+  const lines = before === after ? [] : diffLines(splitLines(before), splitLines(after));
+  return {
+    added: lines.filter((l) => l.mark === "+").length,
+    removed: lines.filter((l) => l.mark === "-").length,
+  };
+}
+
+// Standard unified diff (`diff -u`), empty when the contents are equal
+export function unifiedDiff(
+  before: string,
+  after: string,
+  options: { fromFile?: string; toFile?: string; context?: number } = {},
+): string {
+  if (before === after) return "";
+  const { fromFile = "a", toFile = "b", context = 3 } = options;
+  const lines = diffLines(splitLines(before), splitLines(after));
+
+  // Group changed lines, with their context, into hunks
+  const hunks: Array<[number, number]> = [];
+  for (const [k, line] of lines.entries()) {
+    if (line.mark === " ") continue;
+    const from = Math.max(0, k - context);
+    const to = Math.min(lines.length, k + context + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1]) last[1] = to;
+    else hunks.push([from, to]);
+  }
+
+  const out = [`--- ${fromFile}`, `+++ ${toFile}`];
+  for (const [from, to] of hunks) {
+    const preceding = lines.slice(0, from);
+    const hunk = lines.slice(from, to);
+    const oldStart = preceding.filter((l) => l.mark !== "+").length;
+    const newStart = preceding.filter((l) => l.mark !== "-").length;
+    const oldCount = hunk.filter((l) => l.mark !== "+").length;
+    const newCount = hunk.filter((l) => l.mark !== "-").length;
+    out.push(`@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`);
+    out.push(...hunk.map((l) => `${l.mark}${l.text}`));
+  }
+  return out.join("\n") + "\n";
+}
+
+export interface FileChange {
+  path: string;
+  change: "added" | "removed" | "modified";
+  linesAdded: number;
+  linesRemoved: number;
+}
+
+// Compare the files of an already-published item with a fresh build.
+// Metadata (updatedAt, description, ...) is ignored — only file content
+// is immutable once a version is published.
+export function diffItemFiles(
+  previous: Pick<RegistryItem, "files">,
+  next: Pick<RegistryItem, "files">,
+): FileChange[] {
+  const before = new Map(previous.files.map((f) => [f.path, f.content]));
+  const after = new Map(next.files.map((f) => [f.path, f.content]));
+  const changes: FileChange[] = [];
+
+  for (const path of new Set([...before.keys(), ...after.keys()])) {
+    const a = before.get(path);
+    const b = after.get(path);
+    if (a === b) continue;
+    const { added, removed } = countChangedLines(a ?? "", b ?? "");
+    changes.push({
+      path,
+      change: a === undefined ? "added" : b === undefined ? "removed" : "modified",
+      linesAdded: added,
+      linesRemoved: removed,
+    });
+  }
+
+  return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
+
+export function formatFileChange({ path, change, linesAdded, linesRemoved }: FileChange): string {
+  return `${change.padEnd(8)} ${path} (+${linesAdded} -${linesRemoved})`;
+}
+
+export function diffRegistryItems(from: RegistryItem, to: RegistryItem): RegistryItemDiff {
+  const metadata: MetadataChange[] = [];
+
+  // Keyed by package name so a changed range reads as one modification
+  const specs = (item: RegistryItem) =>
+    new Map((item.dependencies ?? []).map((spec) => [parseDependencySpec(spec)?.name ?? spec, spec]));
+  metadata.push(...diffKeyed("dependencies", specs(from), specs(to)));
+
+  metadata.push(...diffKeyed("envVars", new Map(Object.entries(from.envVars ?? {})), new Map(Object.entries(to.envVars ?? {}))));
+
+  // References to other registries are keyed without their range, like packages
+  const names = (item: RegistryItem) => new Map((item.registryDependencies ?? []).map((ref) => [refKey(ref), ref]));
+  metadata.push(...diffKeyed("registryDependencies", names(from), names(to)));
+
+  if (from.slot !== to.slot) {
+    const change = from.slot === undefined ? "added" : to.slot === undefined ? "removed" : "modified";
+    metadata.push({ field: "slot", change, before: from.slot, after: to.slot });
+  }
+
+  const before = new Map(from.files.map((f) => [f.path, f.content]));
+  const after = new Map(to.files.map((f) => [f.path, f.content]));
+  const files: RegistryItemDiff["files"] = [];
+  for (const path of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+    const a = before.get(path);
+    const b = after.get(path);
+    if (a === b) continue;
+    files.push({
+      path,
+      change: a === undefined ? "added" : b === undefined ? "removed" : "modified",
+      patch: unifiedDiff(a ?? "", b ?? "", {
+        fromFile: a === undefined ? "/dev/null" : `a/${path}`,
+        toFile: b === undefined ? "/dev/null" : `b/${path}`,
+      }),
+    });
+  }
+
+  return {
+    $schema: "https://kitn.dev/schema/registry-item-diff.json",
+    name: to.name,
+    type: to.type,
+    from: from.version ?? "",
+    to: to.version ?? "",
+    metadata,
+    files,
+  };
+}
+
+// Terminal-friendly text: metadata changes first, then each file's patch
+export function formatItemDiff(diff: RegistryItemDiff): string {
+  // An empty version is a component added or removed between two builds
+  const out = [`${diff.name} ${diff.from || "(none)"} → ${diff.to || "(none)"}`];
+
+  if (diff.metadata.length > 0) {
+    out.push("", "Metadata:");
+    for (const { field, key, change, before, after } of diff.metadata) {
+      const label = key ? `${field} ${key}` : field;
+      if (change === "added") out.push(`  + ${label}: ${show(after)}`);
+      else if (change === "removed") out.push(`  - ${label}: ${show(before)}`);
+      else out.push(`  ~ ${label}: ${show(before)} → ${show(after)}`);
+    }
+  }
+
+  for (const file of diff.files) out.push("", file.patch.replace(/\n$/, ""));
+  if (diff.metadata.length === 0 && diff.files.length === 0) out.push("", "No changes.");
+  return out.join("\n");
+}
+
+function diffKeyed(
+  field: MetadataChange["field"],
+  before: Map<string, unknown>,
+  after: Map<string, unknown>,
+): MetadataChange[] {
+  const changes: MetadataChange[] = [];
+  for (const key of [...new Set([...before.keys(), ...after.keys()])].sort()) {
+    const a = before.get(key);
+    const b = after.get(key);
+    if (a === undefined) changes.push({ field, key, change: "added", after: b });
+    else if (b === undefined) changes.push({ field, key, change: "removed", before: a });
+    else if (JSON.stringify(a) !== JSON.stringify(b)) changes.push({ field, key, change: "modified", before: a, after: b });
+  }
+  return changes;
+}
+
+function show(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+// Hunk range: "start,count", 1-based — an empty side starts at the line before
+function range(start: number, count: number): string {
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+function splitLines(content: string): string[] {
+  if (!content) return [];
+  return content.replace(/\n$/, "").split("\n");
+}
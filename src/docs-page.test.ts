@@ -0,0 +1,126 @@
+import { describe, it, expect } from "bun:test";
+import { docsPageFile, renderDocsPage } from "./docs-page.js";
+import type { RegistryItem } from "./schema.js";
+
+const skill: RegistryItem = {
+  name: "weather-skill",
+  type: "kitn:skill",
+  description: "Reading forecasts <well>",
+  version: "1.1.0",
+  files: [
+    {
+      path: "skills/SKILL.md",
+      type: "kitn:skill",
+      content: "---\nname: weather-skill\ndescription: Forecasts\n---\n# Forecasts\n\nSee [units](./units.md) and [docs](https://kitn.dev).\n",
+    },
+    { path: "skills/units.md", type: "kitn:skill", content: "# Units\n" },
+  ],
+  registryDependencies: ["weather-tool"],
+  envVars: { WEATHER_KEY: { description: "API key", required: true, secret: true, url: "https://example.com/keys" } },
+  docs: "Add WEATHER_KEY to .env",
+  changelog: [
+    { version: "1.1.0", date: "2025-03-01", type: "feature", note: "Adds units\nAdds wind" },
+    { version: "1.0.0", date: "2025-01-01", type: "initial", note: "Initial release" },
+  ],
+};
+
+describe("renderDocsPage", () => {
+  const html = renderDocsPage(skill, {
+    typeDir: "skills",
+    versions: ["1.1.0", "1.0.0"],
+    dependents: ["weather-agent"],
+    yanked: { "1.0.0": "Wrong units" },
+  });
+
+  it("renders the install command, docs, env vars and changelog", () => {
+    expect(html).toContain("<title>weather-skill — kitn registry</title>");
+    expect(html).toContain("<p>Reading forecasts &lt;well&gt;</p>");
+    expect(html).toContain("<pre><code>kitn add weather-skill</code></pre>");
+    expect(html).toContain(`<pre class="docs">Add WEATHER_KEY to .env</pre>`);
+    expect(html).toContain(
+      `<tr><td><code>WEATHER_KEY</code></td><td>API key (<a href="https://example.com/keys">get one</a>)</td><td>yes</td><td>yes</td></tr>`,
+    );
+    expect(html).toContain(`<span class="version">1.1.0</span> <span class="tag">feature</span> <time>2025-03-01</time><p>Adds units<br>Adds wind</p>`);
+  });
+
+  it("links dependencies, dependents and versions to their pages", () => {
+    expect(html).toContain(`<dt>Depends on</dt><dd><a class="tag dep" href="weather-tool.html">weather-tool</a></dd>`);
+    expect(html).toContain(`<dt>Used by</dt><dd><a class="tag dep" href="weather-agent.html">weather-agent</a></dd>`);
+    expect(html).toContain(`<li><a href="weather-skill@1.0.0.html">1.0.0</a> <span class="tag warn">yanked</span></li>`);
+    expect(html).toContain(`<a href="../skills/weather-skill.json">JSON</a>`);
+  });
+
+  it("renders skill markdown without frontmatter, linking to files on the page", () => {
+    expect(html).toContain(`<details id="file-skills-SKILL-md" open>`);
+    expect(html).toContain(`<h1>Forecasts</h1>`);
+    expect(html).toContain(`See <a href="#file-skills-units-md">units</a> and <a href="https://kitn.dev">docs</a>.`);
+    expect(html).not.toContain("description: Forecasts");
+  });
+
+  it("pins the install command on version pages and flags yanked and older versions", () => {
+    const old = renderDocsPage({ ...skill, version: "1.0.0" }, {
+      typeDir: "skills",
+      versions: ["1.1.0", "1.0.0"],
+      dependents: [],
+      pinned: true,
+      deprecated: { message: "Superseded.", replacement: "forecast-skill" },
+      yanked: { "1.0.0": "Wrong units" },
+    });
+    expect(old).toContain("<pre><code>kitn add weather-skill@1.0.0</code></pre>");
+    expect(old).toContain(`<p class="notice">Deprecated: Superseded. Use <a href="forecast-skill.html">forecast-skill</a> instead.</p>`);
+    expect(old).toContain(`<p class="notice">1.0.0 was yanked: Wrong units</p>`);
+    expect(old).toContain(`This is an older version. <a href="weather-skill.html">See the latest</a>.`);
+    expect(old).toContain(`<a href="../skills/weather-skill@1.0.0.json">JSON</a>`);
+  });
+
+  it("drops env var links with a disallowed scheme", () => {
+    const page = renderDocsPage({
+      ...skill,
+      envVars: { WEATHER_KEY: { description: "API key", url: "javascript:alert(document.cookie)" } },
+    }, { typeDir: "skills", versions: [], dependents: [] });
+    expect(page).toContain(`<tr><td><code>WEATHER_KEY</code></td><td>API key</td><td>no</td><td>no</td></tr>`);
+    expect(page).not.toContain("javascript:");
+  });
+
+  it("links dependencies from other registries to the version they resolved to", () => {
+    const page = renderDocsPage({
+      ...skill,
+      registryDependencies: ["@acme/units-tool@^1"],
+      externalDependencies: {
+        "@acme/units-tool@^1": {
+          registry: "https://acme.example.com/r",
+          name: "units-tool",
+          type: "kitn:tool",
+          version: "1.4.0",
+          url: "https://acme.example.com/r/tools/units-tool@1.4.0.json",
+        },
+      },
+    }, { typeDir: "skills", versions: [], dependents: [] });
+    expect(page).toContain(`<a class="tag dep" href="https://acme.example.com/r/tools/units-tool@1.4.0.json">@acme/units-tool@^1</a>`);
+  });
+
+  it("doesn't link dependencies from other registries with a disallowed scheme", () => {
+    const page = renderDocsPage({
+      ...skill,
+      registryDependencies: ["@acme/units-tool"],
+      externalDependencies: {
+        "@acme/units-tool": {
+          registry: "javascript:alert(1)//",
+          name: "units-tool",
+          type: "kitn:tool",
+          version: "1.4.0",
+          url: "javascript:alert(1)///tools/units-tool@1.4.0.json",
+        },
+      },
+    }, { typeDir: "skills", versions: [], dependents: [] });
+    expect(page).toContain(`<span class="tag dep">@acme/units-tool</span>`);
+    expect(page).not.toContain("javascript:");
+  });
+});
+
+describe("docsPageFile", () => {
+  it("names latest and versioned pages", () => {
+    expect(docsPageFile("weather-tool")).toBe("weather-tool.html");
+    expect(docsPageFile("weather-tool", "1.0.0")).toBe("weather-tool@1.0.0.html");
+  });
+});
@@ -0,0 +1,249 @@
+import { escapeHtml, highlightCode, languageOf } from "./highlight.js";
+import { renderMarkdown, safeHref } from "./markdown.js";
+import { parseFrontmatter } from "./frontmatter.js";
+import type { Deprecation, RegistryItem } from "./schema.js";
+
+/**
+ * Static documentation page for one component, built from its RegistryItem.
+ *
+ * Written by the build to r/docs/<name>.html (latest) and
+ * r/docs/<name>@<version>.html (each published version). Pages are plain
+ * HTML with inline styles — no scripts, no server — and link to each other,
+ * to the registry page, and to the JSON they were rendered from.
+ */
+
+export interface DocsPageContext {
+  /** Directory in r/ the item's JSON is in, e.g. "tools" */
+  typeDir: string;
+  /** Every published version, newest first */
+  versions: string[];
+  /** Components whose registryDependencies include this one */
+  dependents: string[];
+  /** From the latest item, so older versions show today's status */
+  deprecated?: Deprecation;
+  yanked?: Record<string, string>;
+  /** Set on name@version pages — the install command pins the version */
+  pinned?: boolean;
+}
+
+// "weather-tool" → "weather-tool.html", with a version "weather-tool@1.0.0.html"
+export function docsPageFile(name: string, version?: string): string {
+  return version ? `${name}@${version}.html` : `${name}.html`;
+}
+
+export function renderDocsPage(item: RegistryItem, context: DocsPageContext): string {
+  const version = item.version ?? "1.0.0";
+  const title = context.pinned ? `${item.name}@${version}` : item.name;
+  const itemJson = `../${context.typeDir}/${context.pinned ? `${item.name}@${version}` : item.name}.json`;
+
+  const sections = [
+    header(item, context, title),
+    notices(item, context, version),
+    section("Install", `<pre><code>kitn add ${escapeHtml(context.pinned ? `${item.name}@${version}` : item.name)}</code></pre>`),
+    item.docs ? section("After installing", `<pre class="docs">${escapeHtml(item.docs)}</pre>`) : "",
+    envVarTable(item),
+    dependencies(item, context),
+    files(item),
+    changelog(item),
+    versions(item, context, version),
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} — kitn registry</title>
+  <style>${styles}</style>
+</head>
+<body>
+  <main>
+    <nav><a href="../../index.html">← All components</a> · <a href="${escapeHtml(itemJson)}">JSON</a></nav>
+${sections.filter(Boolean).join("\n")}
+  </main>
+</body>
+</html>
+`;
+}
+
+function header(item: RegistryItem, context: DocsPageContext, title: string): string {
+  const formerly = item.renamedFrom?.length ? ` <span class="tag">formerly ${escapeHtml(item.renamedFrom.join(", "))}</span>` : "";
+  const categories = (item.categories ?? []).map((c) => `<span class="tag">${escapeHtml(c)}</span>`).join(" ");
+  return `    <header>
+      <h1>${escapeHtml(title)} <span class="type">${escapeHtml(item.type)}</span>${context.deprecated ? ` <span class="tag warn">deprecated</span>` : ""}${formerly}</h1>
+      <p>${escapeHtml(item.description)}</p>
+      ${categories ? `<p>${categories}</p>` : ""}
+    </header>`;
+}
+
+function notices(item: RegistryItem, context: DocsPageContext, version: string): string {
+  const out: string[] = [];
+  if (context.deprecated) {
+    const { message, replacement } = context.deprecated;
+    const use = replacement ? ` Use <a href="${docsPageFile(replacement)}">${escapeHtml(replacement)}</a> instead.` : "";
+    out.push(`<p class="notice">Deprecated: ${escapeHtml(message)}${use}</p>`);
+  }
+  const yanked = context.yanked?.[version];
+  if (yanked !== undefined) {
+    out.push(`<p class="notice">${escapeHtml(version)} was yanked: ${escapeHtml(yanked)}</p>`);
+  }
+  if (context.pinned && context.versions[0] && context.versions[0] !== version) {
+    out.push(`<p class="notice muted">This is an older version. <a href="${docsPageFile(item.name)}">See the latest</a>.</p>`);
+  }
+  return out.join("\n");
+}
+
+function envVarTable(item: RegistryItem): string {
+  const entries = Object.entries(item.envVars ?? {});
+  if (entries.length === 0) return "";
+  const rows = entries.map(([name, envVar]) => {
+    // Manifest URLs get the same scheme allow-list as markdown links
+    const url = envVar.url && safeHref(envVar.url);
+    const description = url
+      ? `${escapeHtml(envVar.description)} (<a href="${escapeHtml(url)}">get one</a>)`
+      : escapeHtml(envVar.description);
+    return `<tr><td><code>${escapeHtml(name)}</code></td><td>${description}</td><td>${envVar.required ? "yes" : "no"}</td><td>${envVar.secret ? "yes" : "no"}</td></tr>`;
+  });
+  return section(
+    "Environment variables",
+    `<table><thead><tr><th>Name</th><th>Description</th><th>Required</th><th>Secret</th></tr></thead><tbody>${rows.join("")}</tbody></table>`,
+  );
+}
+
+function dependencies(item: RegistryItem, context: DocsPageContext): string {
+  // Dependencies from other registries link to the item they resolved to,
+  // when its URL passes the same scheme allow-list as markdown links
+  const href = (name: string) => {
+    const external = item.externalDependencies?.[name];
+    return external ? safeHref(external.url) : docsPageFile(name);
+  };
+  const links = (names: string[]) =>
+    names.map((name) => {
+      const target = href(name);
+      return target === undefined
+        ? `<span class="tag dep">${escapeHtml(name)}</span>`
+        : `<a class="tag dep" href="${escapeHtml(target)}">${escapeHtml(name)}</a>`;
+    }).join(" ");
+  const packages = (specs: string[] = []) => specs.map((spec) => `<code>${escapeHtml(spec)}</code>`).join(" ");
+
+  const rows: string[] = [];
+  if (item.registryDependencies?.length) rows.push(`<dt>Depends on</dt><dd>${links(item.registryDependencies)}</dd>`);
+  if (context.dependents.length) rows.push(`<dt>Used by</dt><dd>${links(context.dependents)}</dd>`);
+  if (item.dependencies?.length) rows.push(`<dt>npm</dt><dd>${packages(item.dependencies)}</dd>`);
+  if (item.devDependencies?.length) rows.push(`<dt>npm (dev)</dt><dd>${packages(item.devDependencies)}</dd>`);
+  if (item.slot) rows.push(`<dt>Slot</dt><dd><code>${escapeHtml(item.slot)}</code></dd>`);
+  return rows.length ? section("Dependencies", `<dl>${rows.join("")}</dl>`) : "";
+}
+
+// Markdown files are rendered (skills), everything else highlighted.
+// Relative links between the component's files jump to them on the page.
+function files(item: RegistryItem): string {
+  const paths = new Set(item.files.map((f) => f.path));
+  const blocks = item.files.map(({ path, content }) => {
+    const language = languageOf(path);
+    let body: string;
+    if (language === "md") {
+      const markdown = markdownBody(content);
+      const dir = path.slice(0, path.lastIndexOf("/") + 1);
+      const resolveLink = (href: string) => {
+        const target = normalizePath(dir + href.split("#")[0]);
+        return paths.has(target) ? `#${fileAnchor(target)}` : href;
+      };
+      body = `<div class="markdown">${renderMarkdown(markdown, { resolveLink })}</div>`;
+    } else {
+      body = `<pre><code>${highlightCode(content, language)}</code></pre>`;
+    }
+    return `<details id="${fileAnchor(path)}" open><summary><code>${escapeHtml(path)}</code></summary>${body}</details>`;
+  });
+  return section("Files", blocks.join("\n"));
+}
+
+function changelog(item: RegistryItem): string {
+  if (!item.changelog?.length) return "";
+  const entries = item.changelog.map((entry) => {
+    const notes = entry.note.split("\n").map((line) => escapeHtml(line)).join("<br>");
+    return `<li><span class="version">${escapeHtml(entry.version)}</span> <span class="tag">${escapeHtml(entry.type)}</span> <time>${escapeHtml(entry.date)}</time><p>${notes}</p></li>`;
+  });
+  return section("Changelog", `<ol class="timeline">${entries.join("")}</ol>`);
+}
+
+function versions(item: RegistryItem, context: DocsPageContext, current: string): string {
+  if (context.versions.length === 0) return "";
+  const entries = context.versions.map((version) => {
+    const label = version === current ? `<strong>${escapeHtml(version)}</strong>` : escapeHtml(version);
+    const yanked = context.yanked?.[version] !== undefined ? ` <span class="tag warn">yanked</span>` : "";
+    return `<li><a href="${docsPageFile(item.name, version)}">${label}</a>${yanked}</li>`;
+  });
+  return section("Versions", `<ul class="versions">${entries.join("")}</ul>`);
+}
+
+function section(title: string, body: string): string {
+  return `    <section><h2>${title}</h2>${body}</section>`;
+}
+
+// Frontmatter isn't shown — for skills it's already on the page as metadata
+function markdownBody(content: string): string {
+  try {
+    return parseFrontmatter(content).body;
+  } catch {
+    return content;
+  }
+}
+
+function fileAnchor(path: string): string {
+  return `file-${path.replace(/[^a-zA-Z0-9_-]+/g, "-")}`;
+}
+
+// Resolves "./" and "../" segments in a path built from a relative link
+function normalizePath(path: string): string {
+  const out: string[] = [];
+  for (const segment of path.split("/")) {
+    if (segment === "..") out.pop();
+    else if (segment && segment !== ".") out.push(segment);
+  }
+  return out.join("/");
+}
+
+// Same palette as index.html
+const styles = `
+    :root {
+      --bg: #09090b; --surface: #131318; --border: #26252e; --text: #f5f5f7; --text-secondary: #a1a1a6;
+      --brand: #e429a3; --warn: #d9a648; --radius: 8px;
+      --tok-keyword: #c678dd; --tok-string: #98c379; --tok-number: #d19a66; --tok-comment: #7f848e;
+    }
+    * { box-sizing: border-box; }
+    body { margin: 0; background: var(--bg); color: var(--text); font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; }
+    main { max-width: 860px; margin: 0 auto; padding: 2rem 1.5rem 4rem; }
+    a { color: var(--brand); text-decoration: none; }
+    a:hover { text-decoration: underline; }
+    nav { font-size: 0.8125rem; margin-bottom: 1.5rem; }
+    h1 { font-size: 1.5rem; margin: 0; }
+    h2 { font-size: 1rem; margin: 2rem 0 0.75rem; padding-bottom: 0.375rem; border-bottom: 1px solid var(--border); }
+    header p { color: var(--text-secondary); margin: 0.375rem 0 0; }
+    .type { font-size: 0.75rem; font-weight: 400; color: var(--text-secondary); font-family: ui-monospace, monospace; }
+    .tag { display: inline-block; font-size: 0.6875rem; font-weight: 400; padding: 0.125rem 0.5rem; border-radius: 100px; border: 1px solid var(--border); color: var(--text-secondary); }
+    .tag.warn { color: var(--warn); border-color: var(--warn); }
+    .notice { border-left: 3px solid var(--warn); padding: 0.5rem 0.75rem; background: var(--surface); }
+    .notice.muted { border-color: var(--border); }
+    code, pre { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.8125rem; }
+    pre { background: var(--surface); border: 1px solid var(--border); border-radius: var(--radius); padding: 0.75rem 1rem; overflow-x: auto; }
+    pre.docs { white-space: pre-wrap; font-family: inherit; }
+    table { width: 100%; border-collapse: collapse; font-size: 0.875rem; }
+    th, td { text-align: left; padding: 0.375rem 0.5rem; border-bottom: 1px solid var(--border); vertical-align: top; }
+    dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.375rem 1rem; margin: 0; }
+    dt { color: var(--text-secondary); }
+    dd { margin: 0; }
+    details { margin-bottom: 0.75rem; }
+    summary { cursor: pointer; margin-bottom: 0.375rem; }
+    .markdown { border: 1px solid var(--border); border-radius: var(--radius); padding: 0 1rem; }
+    .timeline { list-style: none; padding: 0; border-left: 2px solid var(--border); }
+    .timeline li { padding: 0 0 0.75rem 1rem; }
+    .timeline p { margin: 0.25rem 0 0; color: var(--text-secondary); }
+    .version { font-weight: 600; }
+    time { color: var(--text-secondary); font-size: 0.8125rem; }
+    .versions { padding-left: 1.25rem; }
+    .tok-keyword { color: var(--tok-keyword); }
+    .tok-string { color: var(--tok-string); }
+    .tok-number { color: var(--tok-number); }
+    .tok-comment { color: var(--tok-comment); font-style: italic; }
+  `;
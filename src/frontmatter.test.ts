@@ -0,0 +1,23 @@
+import { describe, it, expect } from "bun:test";
+import { parseFrontmatter } from "./frontmatter.js";
+
+describe("parseFrontmatter", () => {
+  it("splits frontmatter from the body and tracks where the body starts", () => {
+    const parsed = parseFrontmatter("---\nname: demo\ntags: [a, b]\n---\n\n# Demo\n");
+    expect(parsed.frontmatter).toEqual({ name: "demo", tags: ["a", "b"] });
+    expect(parsed.body).toBe("\n# Demo\n");
+    expect(parsed.bodyLine).toBe(5);
+  });
+
+  it("returns undefined frontmatter when there is no block", () => {
+    expect(parseFrontmatter("# Demo\n---\nname: x\n---\n")).toEqual({
+      frontmatter: undefined,
+      body: "# Demo\n---\nname: x\n---\n",
+      bodyLine: 1,
+    });
+  });
+
+  it("throws on malformed YAML", () => {
+    expect(() => parseFrontmatter("---\nname: [unclosed\n---\n")).toThrow();
+  });
+});
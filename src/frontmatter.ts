@@ -0,0 +1,34 @@
+import { parse as parseYaml } from "yaml";
+
+/**
+ * YAML frontmatter at the top of a markdown file — used by skills and by
+ * pending change files in .changes/.
+ *
+ *   ---
+ *   name: my-skill
+ *   description: What this skill provides
+ *   ---
+ *
+ *   # My Skill
+ */
+
+export interface ParsedFrontmatter {
+  /** Parsed YAML, or undefined when the file has no frontmatter block */
+  frontmatter: unknown;
+  body: string;
+  /** 1-based line the body starts on, for locating problems in it */
+  bodyLine: number;
+}
+
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+// Throws on malformed YAML — callers report the message
+export function parseFrontmatter(source: string): ParsedFrontmatter {
+  const match = FRONTMATTER.exec(source);
+  if (!match) return { frontmatter: undefined, body: source, bodyLine: 1 };
+  return {
+    frontmatter: parseYaml(match[1]) ?? {},
+    body: source.slice(match[0].length),
+    bodyLine: match[0].split("\n").length,
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from "bun:test";
+import { highlightCode, languageOf } from "./highlight.js";
+
+describe("highlightCode", () => {
+  it("wraps comments, strings, numbers and keywords, escaping the rest", () => {
+    const source = `// a <b>\nexport const n = 42; const s = 'it\\'s' + "x" /* c */;\nif (a < b) return v2;`;
+    expect(highlightCode(source, "ts")).toBe(
+      `<span class="tok-comment">// a &lt;b&gt;</span>\n` +
+        `<span class="tok-keyword">export</span> <span class="tok-keyword">const</span> n = <span class="tok-number">42</span>; ` +
+        `<span class="tok-keyword">const</span> s = <span class="tok-string">&#39;it\\&#39;s&#39;</span> + <span class="tok-string">&quot;x&quot;</span> <span class="tok-comment">/* c */</span>;\n` +
+        `<span class="tok-keyword">if</span> (a &lt; b) <span class="tok-keyword">return</span> v2;`,
+    );
+  });
+
+  it("only escapes languages it doesn't know", () => {
+    expect(highlightCode("const <x>", "md")).toBe("const &lt;x&gt;");
+    expect(languageOf("skills/guide/SKILL.MD")).toBe("md");
+    expect(languageOf("Makefile")).toBe("");
+  });
+});
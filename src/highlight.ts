@@ -0,0 +1,64 @@
+/**
+ * Syntax highlighting for the static docs pages.
+ *
+ * A single regex pass over TypeScript, JavaScript or JSON that wraps
+ * comments, strings, numbers and keywords in `<span class="tok-*">`.
+ * It only colours — it never has to understand the code — so template
+ * literal substitutions and regex literals are left as they fall.
+ */
+
+const keywords = [
+  "abstract", "as", "async", "await", "break", "case", "catch", "class", "const", "continue", "debugger",
+  "declare", "default", "delete", "do", "else", "enum", "export", "extends", "false", "finally", "for",
+  "from", "function", "if", "implements", "import", "in", "instanceof", "interface", "keyof", "let", "new",
+  "null", "of", "private", "protected", "public", "readonly", "return", "satisfies", "static", "super",
+  "switch", "this", "throw", "true", "try", "type", "typeof", "undefined", "var", "void", "while", "yield",
+];
+
+const tokenPattern = new RegExp(
+  [
+    /(\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.source,
+    /("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)/.source,
+    /\b(\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?n?)\b/.source,
+    `\\b(${keywords.join("|")})\\b`,
+  ].join("|"),
+  "g",
+);
+
+const scriptExtensions = new Set(["ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs", "json"]);
+
+// Languages `highlightCode` colours, by extension or fence name
+export function isHighlighted(language: string): boolean {
+  return scriptExtensions.has(language) || language === "typescript" || language === "javascript";
+}
+
+// HTML for a file or code block — coloured when the language is known,
+// escaped as-is otherwise
+export function highlightCode(source: string, language: string): string {
+  if (!isHighlighted(language)) return escapeHtml(source);
+
+  let html = "";
+  let last = 0;
+  for (const match of source.matchAll(tokenPattern)) {
+    const [text, comment, string, number] = match;
+    const kind = comment ? "comment" : string ? "string" : number ? "number" : "keyword";
+    html += escapeHtml(source.slice(last, match.index)) + `<span class="tok-${kind}">${escapeHtml(text)}</span>`;
+    last = match.index! + text.length;
+  }
+  return html + escapeHtml(source.slice(last));
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// File extension used to pick a language: "tools/weather.ts" → "ts"
+export function languageOf(path: string): string {
+  const dot = path.lastIndexOf(".");
+  return dot === -1 ? "" : path.slice(dot + 1).toLowerCase();
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "bun:test";
+import { computeIntegrity, computeItemIntegrity, verifyItemIntegrity } from "./integrity.js";
+
+describe("computeIntegrity", () => {
+  it("produces an SRI-style sha256 digest", () => {
+    // echo -n "hello" | openssl dgst -sha256 -binary | base64
+    expect(computeIntegrity("hello")).toBe("sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=");
+  });
+});
+
+describe("computeItemIntegrity", () => {
+  it("does not depend on file order", () => {
+    const a = { path: "tools/a.ts", content: "a" };
+    const b = { path: "tools/b.ts", content: "b" };
+    expect(computeItemIntegrity([a, b])).toBe(computeItemIntegrity([b, a]));
+  });
+
+  it("changes when a file moves", () => {
+    const before = computeItemIntegrity([{ path: "tools/a.ts", content: "a" }]);
+    const after = computeItemIntegrity([{ path: "tools/b.ts", content: "a" }]);
+    expect(after).not.toBe(before);
+  });
+});
+
+describe("verifyItemIntegrity", () => {
+  const content = 'export const x = 1;\n';
+  const file = { path: "tools/x.ts", content, integrity: computeIntegrity(content) };
+  const item = { files: [file], integrity: computeItemIntegrity([file]) };
+
+  it("accepts an untouched item", () => {
+    expect(verifyItemIntegrity(item)).toEqual([]);
+  });
+
+  it("reports the tampered file and the item digest", () => {
+    const tampered = { ...item, files: [{ ...file, content: 'export const x = 2;\n' }] };
+    const mismatches = verifyItemIntegrity(tampered);
+    expect(mismatches.map((m) => m.path)).toEqual(["tools/x.ts", undefined]);
+  });
+});
@@ -0,0 +1,55 @@
+import { createHash } from "crypto";
+import type { RegistryFile } from "./schema.js";
+
+/**
+ * SRI-style content digests for registry files and items.
+ *
+ * A file's integrity is `sha256-<base64>` of its UTF-8 content. An item's
+ * integrity is the same digest taken over its files' `path` and `integrity`,
+ * sorted by path, so it changes whenever any file is added, removed, moved
+ * or edited. The CLI stores the item integrity as `hash` in kitn.lock.
+ */
+
+export const INTEGRITY_ALGORITHM = "sha256";
+
+export function computeIntegrity(content: string): string {
+  const digest = createHash(INTEGRITY_ALGORITHM).update(content, "utf8").digest("base64");
+  return `${INTEGRITY_ALGORITHM}-${digest}`;
+}
+
+export function computeItemIntegrity(files: Array<Pick<RegistryFile, "path" | "content">>): string {
+  const lines = files
+    .map((file) => `${file.path}\0${computeIntegrity(file.content)}\n`)
+    .sort();
+  return computeIntegrity(lines.join(""));
+}
+
+export interface IntegrityMismatch {
+  /** File path within the item, or undefined for the item-level digest */
+  path?: string;
+  expected?: string;
+  actual: string;
+}
+
+// Re-hash an item's content and compare against its recorded digests.
+// Files or items without a recorded digest are reported with `expected` undefined.
+export function verifyItemIntegrity(item: {
+  files: Array<Pick<RegistryFile, "path" | "content" | "integrity">>;
+  integrity?: string;
+}): IntegrityMismatch[] {
+  const mismatches: IntegrityMismatch[] = [];
+
+  for (const file of item.files) {
+    const actual = computeIntegrity(file.content);
+    if (file.integrity !== actual) {
+      mismatches.push({ path: file.path, expected: file.integrity, actual });
+    }
+  }
+
+  const actual = computeItemIntegrity(item.files);
+  if (item.integrity !== actual) {
+    mismatches.push({ expected: item.integrity, actual });
+  }
+
+  return mismatches;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "bun:test";
+import { renderMarkdown } from "./markdown.js";
+
+describe("renderMarkdown", () => {
+  it("renders headings, paragraphs, lists, quotes and rules", () => {
+    const markdown = [
+      "# Weather skill",
+      "",
+      "Use the **weather** tool",
+      "for *current* conditions.",
+      "",
+      "- Ask for a city",
+      "- Call `getWeather`",
+      "",
+      "1. First",
+      "2. Second",
+      "",
+      "> Never guess",
+      "",
+      "---",
+    ].join("\n");
+
+    expect(renderMarkdown(markdown)).toBe([
+      "<h1>Weather skill</h1>",
+      "<p>Use the <strong>weather</strong> tool for <em>current</em> conditions.</p>",
+      "<ul><li>Ask for a city</li><li>Call <code>getWeather</code></li></ul>",
+      "<ol><li>First</li><li>Second</li></ol>",
+      "<blockquote><p>Never guess</p></blockquote>",
+      "<hr>",
+    ].join("\n"));
+  });
+
+  it("highlights fenced code and leaves markup inside code alone", () => {
+    expect(renderMarkdown("```ts\nconst a = \"**b**\";\n```")).toBe(
+      `<pre><code class="language-ts"><span class="tok-keyword">const</span> a = <span class="tok-string">&quot;**b**&quot;</span>;</code></pre>`,
+    );
+    expect(renderMarkdown("Run `a *b* c`")).toBe("<p>Run <code>a *b* c</code></p>");
+  });
+
+  it("escapes raw HTML and drops script links", () => {
+    expect(renderMarkdown("<script>alert(1)</script> [x](javascript:alert) [docs](https://kitn.dev?a=1&b=2)")).toBe(
+      `<p>&lt;script&gt;alert(1)&lt;/script&gt; x <a href="https://kitn.dev?a=1&amp;b=2">docs</a></p>`,
+    );
+  });
+
+  it("emphasizes link labels but never link targets", () => {
+    expect(renderMarkdown("[**the** docs](https://kitn.dev/a_b_c/*x*) and _more_")).toBe(
+      `<p><a href="https://kitn.dev/a_b_c/*x*"><strong>the</strong> docs</a> and <em>more</em></p>`,
+    );
+  });
+
+  it("passes link targets through resolveLink", () => {
+    const html = renderMarkdown("See [the reference](./reference.md)", { resolveLink: (href) => `#file-${href.replace(/^\.\//, "")}` });
+    expect(html).toBe(`<p>See <a href="#file-reference.md">the reference</a></p>`);
+  });
+});
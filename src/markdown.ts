@@ -0,0 +1,126 @@
+import { escapeHtml, highlightCode } from "./highlight.js";
+
+/**
+ * Markdown to HTML for skill files on the static docs pages.
+ *
+ * Covers what skills are written in: ATX headings, paragraphs, fenced code
+ * (highlighted), flat bullet and numbered lists, blockquotes, horizontal
+ * rules, and inline code, bold, italic and links. Everything else renders
+ * as text. All input is escaped, so raw HTML in a skill shows literally.
+ */
+
+export interface MarkdownOptions {
+  /** Rewrites link targets, e.g. a relative file link to an anchor on the page */
+  resolveLink?: (href: string) => string;
+}
+
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): string {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  const html: string[] = [];
+  const inline = (text: string) => renderInline(text, options);
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    const fence = /^(```|~~~)\s*([\w-]*)/.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      const language = fence[2].toLowerCase();
+      const attr = language ? ` class="language-${escapeHtml(language)}"` : "";
+      html.push(`<pre><code${attr}>${highlightCode(code.join("\n"), language)}</code></pre>`);
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      html.push(`<h${level}>${inline(heading[2])}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      html.push("<hr>");
+      i++;
+      continue;
+    }
+
+    const list = listItem(line);
+    if (list) {
+      const items: string[] = [];
+      while (i < lines.length && listItem(lines[i])?.ordered === list.ordered) {
+        items.push(`<li>${inline(listItem(lines[i])!.text)}</li>`);
+        i++;
+      }
+      const tag = list.ordered ? "ol" : "ul";
+      html.push(`<${tag}>${items.join("")}</${tag}>`);
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) quoted.push(lines[i++].replace(/^>\s?/, ""));
+      html.push(`<blockquote>${renderMarkdown(quoted.join("\n"), options)}</blockquote>`);
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // A paragraph runs until a blank line or the start of another block
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) paragraph.push(lines[i++].trim());
+    html.push(`<p>${inline(paragraph.join(" "))}</p>`);
+  }
+
+  return html.join("\n");
+}
+
+function listItem(line: string): { ordered: boolean; text: string } | undefined {
+  const match = /^\s*(?:([-*+])|\d+[.)])\s+(.*)$/.exec(line);
+  return match ? { ordered: !match[1], text: match[2] } : undefined;
+}
+
+function startsBlock(line: string): boolean {
+  return /^(```|~~~|#{1,6}\s|>)/.test(line) || listItem(line) !== undefined;
+}
+
+function renderInline(text: string, options: MarkdownOptions): string {
+  // Code spans first, so nothing inside them is treated as markup
+  return text.split(/(`[^`]+`)/).map((part) => {
+    if (part.startsWith("`") && part.endsWith("`") && part.length > 1) {
+      return `<code>${escapeHtml(part.slice(1, -1))}</code>`;
+    }
+    // Links split the rest into text and labels — emphasis never reaches an href
+    return escapeHtml(part).split(/(\[[^\]]+\]\([^)\s]+\))/).map((segment, i) => {
+      if (i % 2 === 0) return emphasis(segment);
+      const [, label, href] = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(segment)!;
+      const target = safeHref(options.resolveLink ? options.resolveLink(unescape(href)) : unescape(href));
+      return target === undefined ? emphasis(label) : `<a href="${escapeHtml(target)}">${emphasis(label)}</a>`;
+    }).join("");
+  }).join("");
+}
+
+function emphasis(html: string): string {
+  return html
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_, a?: string, b?: string) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^*\w])\*([^*\s][^*]*)\*|(^|\W)_([^_\s][^_]*)_(?!\w)/g,
+      (_, p1?: string, a?: string, p2?: string, b?: string) => `${p1 ?? p2}<em>${a ?? b}</em>`);
+}
+
+// Drops javascript: and other script-capable link targets
+export function safeHref(href: string): string | undefined {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(href)?.[1].toLowerCase();
+  return scheme === undefined || ["http", "https", "mailto"].includes(scheme) ? href : undefined;
+}
+
+// Undoes escapeHtml on a link target before it is resolved and escaped again
+function unescape(text: string): string {
+  return text.replace(/&quot;/g, '"').replace(/&#39;/g, "'").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+}
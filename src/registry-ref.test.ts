@@ -0,0 +1,55 @@
+import { describe, it, expect } from "bun:test";
+import { isExternalRef, parseRegistryRef, refKey, resolveRegistryRef } from "./registry-ref.js";
+import type { RegistryIndexItem } from "./schema.js";
+
+describe("parseRegistryRef", () => {
+  it("splits namespace, name and range", () => {
+    expect(parseRegistryRef("weather-tool")).toEqual({ name: "weather-tool" });
+    expect(parseRegistryRef("@acme/weather-tool")).toEqual({ namespace: "@acme", name: "weather-tool" });
+    expect(parseRegistryRef("@acme/weather-tool@^1.2")).toEqual({ namespace: "@acme", name: "weather-tool", range: "^1.2" });
+    expect(parseRegistryRef("@acme/weather-tool@>=1.0.0 <2")).toEqual({ namespace: "@acme", name: "weather-tool", range: ">=1.0.0 <2" });
+    expect(isExternalRef("@acme/weather-tool")).toBe(true);
+    expect(isExternalRef("weather-tool")).toBe(false);
+    expect(refKey("@acme/weather-tool@^1.2")).toBe("@acme/weather-tool");
+    expect(refKey("weather-tool")).toBe("weather-tool");
+  });
+
+  it("rejects malformed references and ranges on local names", () => {
+    for (const ref of ["", "Weather", "weather-tool@^1", "@acme", "@acme/", "@/weather-tool", "@acme/weather-tool@", "@acme/weather-tool@latest", "@acme/a/b"]) {
+      expect(parseRegistryRef(ref)).toBeNull();
+    }
+  });
+});
+
+describe("resolveRegistryRef", () => {
+  const index = {
+    items: [{
+      name: "weather-tool",
+      type: "kitn:tool",
+      description: "Weather",
+      version: "2.0.0",
+      versions: ["2.0.0", "1.3.0", "1.2.0", "1.1.0"],
+      yanked: { "1.3.0": "Broken" },
+      distTags: { latest: "2.0.0" },
+    }] satisfies RegistryIndexItem[],
+  };
+
+  it("picks the newest non-yanked version in range", () => {
+    const resolved = resolveRegistryRef({ namespace: "@acme", name: "weather-tool", range: "^1.1" }, index);
+    expect("version" in resolved && resolved.version).toBe("1.2.0");
+  });
+
+  it("uses latest without a range", () => {
+    const resolved = resolveRegistryRef({ namespace: "@acme", name: "weather-tool" }, index);
+    expect("version" in resolved && resolved.version).toBe("2.0.0");
+  });
+
+  it("explains what could not be resolved", () => {
+    expect(resolveRegistryRef({ namespace: "@acme", name: "weather-tool", range: "^3" }, index)).toEqual({
+      error: `no published version of "weather-tool" satisfies "^3" (has 2.0.0, 1.3.0, 1.2.0, 1.1.0)`,
+    });
+    expect(resolveRegistryRef({ namespace: "@acme", name: "forecast-tool" }, index)).toEqual({
+      error: `"forecast-tool" is not in the registry`,
+    });
+  });
+});
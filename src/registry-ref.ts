@@ -0,0 +1,74 @@
+import { isValidRange, maxSatisfying } from "./semver.js";
+import type { RegistryIndex, RegistryIndexItem } from "./schema.js";
+
+/**
+ * References to components in `registryDependencies`.
+ *
+ * A bare name is a component in this registry. A namespaced reference
+ * names a component in another registry, the same way `kitn add` does,
+ * with an optional npm-style version range:
+ *
+ *   "weather-tool"   "@acme/weather-tool"   "@acme/weather-tool@^1.2"
+ *
+ * Namespaces map to registries in registry.config.json, and references are
+ * resolved against a snapshot of that registry's registry.json.
+ */
+
+export interface RegistryRef {
+  /** "@acme" — omitted for components in this registry */
+  namespace?: string;
+  name: string;
+  /** Version range, only allowed on namespaced references */
+  range?: string;
+}
+
+const NAME = /^[a-z0-9][a-z0-9-]*$/;
+const NAMESPACE = /^@[a-z0-9][a-z0-9-]*$/;
+
+export function parseRegistryRef(ref: string): RegistryRef | null {
+  if (!ref.startsWith("@")) return NAME.test(ref) ? { name: ref } : null;
+
+  const slash = ref.indexOf("/");
+  if (slash === -1) return null;
+  const namespace = ref.slice(0, slash);
+  const at = ref.indexOf("@", slash);
+  const name = at === -1 ? ref.slice(slash + 1) : ref.slice(slash + 1, at);
+  const range = at === -1 ? undefined : ref.slice(at + 1).trim();
+
+  if (!NAMESPACE.test(namespace) || !NAME.test(name)) return null;
+  if (range !== undefined && (range === "" || !isValidRange(range))) return null;
+  return range ? { namespace, name, range } : { namespace, name };
+}
+
+export function isExternalRef(ref: string): boolean {
+  return ref.startsWith("@");
+}
+
+// What a reference points at regardless of range:
+// "@acme/weather-tool@^1" → "@acme/weather-tool"; local names are unchanged
+export function refKey(ref: string): string {
+  const parsed = parseRegistryRef(ref);
+  return parsed?.namespace ? `${parsed.namespace}/${parsed.name}` : ref;
+}
+
+export type RefResolution =
+  | { item: RegistryIndexItem; version: string }
+  | { error: string };
+
+// The version a reference installs: the newest non-yanked version that
+// satisfies its range, or the registry's `latest` when it has none
+export function resolveRegistryRef(ref: RegistryRef, index: Pick<RegistryIndex, "items">): RefResolution {
+  const item = index.items.find((candidate) => candidate.name === ref.name);
+  if (!item) return { error: `"${ref.name}" is not in the registry` };
+
+  const versions = item.versions ?? [item.version ?? "1.0.0"];
+  const installable = versions.filter((v) => !item.yanked || !(v in item.yanked));
+  if (!ref.range) {
+    const latest = item.distTags?.latest ?? installable[0];
+    return latest ? { item, version: latest } : { error: `every version of "${ref.name}" is yanked` };
+  }
+
+  const version = maxSatisfying(installable, ref.range);
+  if (version) return { item, version };
+  return { error: `no published version of "${ref.name}" satisfies "${ref.range}" (has ${versions.join(", ")})` };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "bun:test";
+import { findCycles, findDependents, resolveDependencyClosure, resolveInstallPlan } from "./resolve.js";
+
+const index = {
+  items: [
+    { name: "weather-agent", registryDependencies: ["weather-tool", "memory-store"] },
+    { name: "weather-tool", registryDependencies: ["http-client"] },
+    { name: "http-client" },
+    { name: "memory-store", registryDependencies: ["http-client"], slot: "storage" },
+    { name: "postgres-store", slot: "storage" },
+    { name: "hybrid-agent", registryDependencies: ["memory-store", "postgres-store"] },
+  ],
+};
+
+describe("resolveInstallPlan", () => {
+  it("orders dependencies before dependents, root last", () => {
+    const plan = resolveInstallPlan(index, "weather-agent");
+    expect(plan.order).toEqual(["http-client", "weather-tool", "memory-store", "weather-agent"]);
+    expect(plan.cycles).toEqual([]);
+    expect(plan.missing).toEqual([]);
+  });
+
+  it("reports missing dependencies with who required them", () => {
+    const plan = resolveInstallPlan(
+      { items: [{ name: "a", registryDependencies: ["b"] }] },
+      "a",
+    );
+    expect(plan.missing).toEqual([{ name: "b", requiredBy: "a" }]);
+    expect(plan.order).toEqual(["a"]);
+  });
+
+  it("reports a cycle with its full path", () => {
+    const plan = resolveInstallPlan(
+      {
+        items: [
+          { name: "a", registryDependencies: ["b"] },
+          { name: "b", registryDependencies: ["c"] },
+          { name: "c", registryDependencies: ["a"] },
+        ],
+      },
+      "a",
+    );
+    expect(plan.cycles).toEqual([["a", "b", "c", "a"]]);
+  });
+
+  it("flags slot conflicts reachable through dependencies", () => {
+    const plan = resolveInstallPlan(index, "hybrid-agent");
+    expect(plan.slotConflicts).toEqual([{ slot: "storage", components: ["memory-store", "postgres-store"] }]);
+  });
+});
+
+describe("resolveDependencyClosure", () => {
+  it("excludes the component itself", () => {
+    expect(resolveDependencyClosure(index, "weather-tool")).toEqual(["http-client"]);
+    expect(resolveDependencyClosure(index, "http-client")).toEqual([]);
+  });
+});
+
+describe("findDependents", () => {
+  it("lists direct dependents, or every dependent nearest first", () => {
+    expect(findDependents(index, "http-client")).toEqual(["weather-tool", "memory-store"]);
+    expect(findDependents(index, "http-client", { transitive: true })).toEqual([
+      "weather-tool",
+      "memory-store",
+      "weather-agent",
+      "hybrid-agent",
+    ]);
+  });
+});
+
+describe("findCycles", () => {
+  it("reports each cycle once regardless of entry point", () => {
+    const cycles = findCycles({
+      items: [
+        { name: "b", registryDependencies: ["a"] },
+        { name: "a", registryDependencies: ["b"] },
+        { name: "c", registryDependencies: ["a"] },
+      ],
+    });
+    expect(cycles).toEqual([["a", "b", "a"]]);
+  });
+});
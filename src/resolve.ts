@@ -0,0 +1,137 @@
+import type { RegistryIndexItem } from "./schema.js";
+
+/**
+ * Dependency resolution over a registry index.
+ *
+ * Walks `registryDependencies` depth-first to produce an install plan for a
+ * component: every transitive dependency in install order (dependencies
+ * before dependents, the requested component last), plus anything that
+ * would stop the plan from installing cleanly — missing components,
+ * dependency cycles and exclusive-slot conflicts.
+ */
+
+export type ResolvableItem = Pick<RegistryIndexItem, "name" | "registryDependencies" | "slot">;
+
+export interface MissingDependency {
+  name: string;
+  requiredBy: string;
+}
+
+export interface SlotConflict {
+  slot: string;
+  /** Components in the plan that all claim this slot, in install order */
+  components: string[];
+}
+
+export interface InstallPlan {
+  root: string;
+  /** Topologically sorted — install in this order */
+  order: string[];
+  missing: MissingDependency[];
+  /** Each cycle is a full path that starts and ends with the same component */
+  cycles: string[][];
+  slotConflicts: SlotConflict[];
+}
+
+export function resolveInstallPlan(index: { items: ResolvableItem[] }, name: string): InstallPlan {
+  const byName = new Map(index.items.map((item) => [item.name, item]));
+  const order: string[] = [];
+  const missing: MissingDependency[] = [];
+  const cycles: string[][] = [];
+  const done = new Set<string>();
+  const stack: string[] = [];
+
+  function visit(current: string, requiredBy?: string) {
+    if (done.has(current)) return;
+
+    const onStack = stack.indexOf(current);
+    if (onStack !== -1) {
+      cycles.push([...stack.slice(onStack), current]);
+      return;
+    }
+
+    const item = byName.get(current);
+    if (!item) {
+      if (requiredBy) missing.push({ name: current, requiredBy });
+      return;
+    }
+
+    stack.push(current);
+    for (const dep of item.registryDependencies ?? []) {
+      visit(dep, current);
+    }
+    stack.pop();
+
+    done.add(current);
+    order.push(current);
+  }
+
+  if (!byName.has(name)) {
+    return { root: name, order: [], missing: [{ name, requiredBy: name }], cycles: [], slotConflicts: [] };
+  }
+  visit(name);
+
+  return { root: name, order, missing, cycles, slotConflicts: findSlotConflicts(order, byName) };
+}
+
+// Transitive dependencies of a component in install order, excluding itself
+export function resolveDependencyClosure(index: { items: ResolvableItem[] }, name: string): string[] {
+  return resolveInstallPlan(index, name).order.filter((n) => n !== name);
+}
+
+// Components that list `name` in their registryDependencies. With
+// `transitive`, also their dependents, and so on — nearest first.
+export function findDependents(
+  index: { items: ResolvableItem[] },
+  name: string,
+  options: { transitive?: boolean } = {},
+): string[] {
+  const found: string[] = [];
+  const queue = [name];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const item of index.items) {
+      if (item.name === name || found.includes(item.name)) continue;
+      if (!(item.registryDependencies ?? []).includes(current)) continue;
+      found.push(item.name);
+      if (options.transitive) queue.push(item.name);
+    }
+  }
+  return found;
+}
+
+// Every distinct cycle in the registry, each rotated to start at its
+// alphabetically first component so the same cycle is only reported once.
+export function findCycles(index: { items: ResolvableItem[] }): string[][] {
+  const seen = new Map<string, string[]>();
+  for (const item of index.items) {
+    for (const cycle of resolveInstallPlan(index, item.name).cycles) {
+      const normalized = normalizeCycle(cycle);
+      seen.set(normalized.join(" → "), normalized);
+    }
+  }
+  return [...seen.values()];
+}
+
+export function formatCycle(cycle: string[]): string {
+  return cycle.join(" → ");
+}
+
+function normalizeCycle(cycle: string[]): string[] {
+  const nodes = cycle.slice(0, -1);
+  const start = nodes.indexOf([...nodes].sort()[0]);
+  const rotated = [...nodes.slice(start), ...nodes.slice(0, start)];
+  return [...rotated, rotated[0]];
+}
+
+function findSlotConflicts(order: string[], byName: Map<string, ResolvableItem>): SlotConflict[] {
+  const bySlot = new Map<string, string[]>();
+  for (const name of order) {
+    const slot = byName.get(name)?.slot;
+    if (!slot) continue;
+    bySlot.set(slot, [...(bySlot.get(slot) ?? []), name]);
+  }
+  return [...bySlot.entries()]
+    .filter(([, components]) => components.length > 1)
+    .map(([slot, components]) => ({ slot, components }));
+}
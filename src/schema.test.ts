@@ -4,6 +4,7 @@ import {
   registryIndexSchema,
   configSchema,
   lockSchema,
+  manifestSchema,
   type RegistryItem,
   type RegistryIndex,
   type KitnConfig,
@@ -137,3 +138,46 @@ describe("lockSchema", () => {
     expect(lockSchema.parse({})).toEqual({});
   });
 });
+
+describe("manifestSchema", () => {
+  const manifest = {
+    name: "weather-tool",
+    type: "kitn:tool",
+    description: "Weather lookup",
+    version: "0.1.0",
+    files: ["weather-tool.ts"],
+  };
+
+  it("validates a minimal manifest", () => {
+    expect(manifestSchema.parse(manifest)).toEqual(manifest);
+  });
+
+  it("rejects unknown keys", () => {
+    const result = manifestSchema.safeParse({ ...manifest, dependancies: ["zod"] });
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({ code: "unrecognized_keys", keys: ["dependancies"] });
+  });
+
+  it("requires files and a valid version", () => {
+    const { files, ...withoutFiles } = manifest;
+    expect(manifestSchema.safeParse(withoutFiles).success).toBe(false);
+    expect(manifestSchema.safeParse({ ...manifest, files: [] }).success).toBe(false);
+    expect(manifestSchema.safeParse({ ...manifest, version: "1.0" }).success).toBe(false);
+  });
+
+  it("accepts dependency specs with version ranges and rejects malformed ones", () => {
+    const withRanges = { ...manifest, dependencies: ["zod@^3", "@ai-sdk/openai"], devDependencies: ["@types/node@^22"] };
+    expect(manifestSchema.parse(withRanges)).toEqual(withRanges);
+
+    const result = manifestSchema.safeParse({ ...manifest, dependencies: ["zod@"] });
+    expect(result.error?.issues[0]).toMatchObject({ path: ["dependencies", 0] });
+  });
+
+  it("accepts references to other registries in registryDependencies", () => {
+    const withRefs = { ...manifest, registryDependencies: ["weather-tool", "@acme/geo-tool", "@acme/geo-tool@^1.2"] };
+    expect(manifestSchema.parse(withRefs)).toEqual(withRefs);
+
+    const result = manifestSchema.safeParse({ ...manifest, registryDependencies: ["weather-tool", "@acme/geo-tool@latest"] });
+    expect(result.error?.issues[0]).toMatchObject({ path: ["registryDependencies", 1] });
+  });
+});
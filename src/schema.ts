@@ -1,4 +1,7 @@
 import { z } from "zod";
+import { isValidVersion } from "./semver.js";
+import { parseDependencySpec } from "./dependencies.js";
+import { parseRegistryRef } from "./registry-ref.js";
 
 // Component types
 export const componentType = z.enum([
@@ -16,33 +19,69 @@ export const registryFileSchema = z.object({
   path: z.string().describe("Relative path within the component type directory"),
   content: z.string().describe("Full source code of the file"),
   type: componentType,
+  integrity: z.string().optional().describe("SRI-style digest of content, e.g. sha256-<base64>"),
 });
 export type RegistryFile = z.infer<typeof registryFileSchema>;
 
 // Changelog entry
 export const changelogEntrySchema = z.object({
-  version: z.string(),
-  date: z.string(),
+  version: z.string().describe("Semver version — see src/changelog.ts for the consistency rules"),
+  date: z.string().describe("Release date, YYYY-MM-DD"),
   type: z.enum(["feature", "fix", "breaking", "initial"]),
   note: z.string(),
 });
 export type ChangelogEntry = z.infer<typeof changelogEntrySchema>;
 
+// Environment variable declaration
+export const envVarSchema = z.object({
+  description: z.string(),
+  required: z.boolean().optional(),
+  secret: z.boolean().optional(),
+  url: z.string().optional(),
+});
+export type EnvVar = z.infer<typeof envVarSchema>;
+
+// Skill frontmatter (the YAML block at the top of a skill's markdown file).
+// Strict for the same reason as manifests — a typo'd key would vanish silently.
+export const skillMetadataSchema = z.object({
+  name: z.string().describe("Must match the manifest name"),
+  description: z.string().min(1, "must not be empty"),
+  tags: z.array(z.string()).optional(),
+  tools: z.array(z.string()).optional().describe("Tool components the skill expects — must be registryDependencies"),
+}).strict();
+export type SkillMetadata = z.infer<typeof skillMetadataSchema>;
+
+// Retires a component — it still installs, but consumers are told what to use instead
+export const deprecationSchema = z.object({
+  message: z.string().min(1, "must not be empty"),
+  replacement: z.string().optional().describe("Component to use instead"),
+}).strict();
+export type Deprecation = z.infer<typeof deprecationSchema>;
+
+// A registryDependency from another registry, pinned to the version it
+// resolved to when the item was built
+export const externalDependencySchema = z.object({
+  registry: z.string().describe("Base URL of the other registry — the directory holding its registry.json"),
+  name: z.string(),
+  type: componentType,
+  version: z.string(),
+  url: z.string().describe("The pinned item: <registry>/<type>/<name>@<version>.json"),
+  integrity: z.string().optional().describe("Item integrity, when the snapshot records it for this version"),
+});
+export type ExternalDependency = z.infer<typeof externalDependencySchema>;
+
 // Full registry item (fetched on demand, includes file content)
 export const registryItemSchema = z.object({
   $schema: z.string().optional(),
   name: z.string().describe("Unique component identifier"),
   type: componentType,
   description: z.string(),
-  dependencies: z.array(z.string()).optional().describe("npm package dependencies"),
+  dependencies: z.array(z.string()).optional().describe("npm package dependencies, optionally with a range (zod@^3)"),
   devDependencies: z.array(z.string()).optional(),
-  registryDependencies: z.array(z.string()).optional().describe("Other kitn components this depends on"),
-  envVars: z.record(z.string(), z.object({
-    description: z.string(),
-    required: z.boolean().optional(),
-    secret: z.boolean().optional(),
-    url: z.string().optional(),
-  })).optional().describe("Required env vars with rich config"),
+  registryDependencies: z.array(z.string()).optional().describe("Other kitn components this depends on — @namespace/name for other registries"),
+  externalDependencies: z.record(z.string(), externalDependencySchema).optional()
+    .describe("Where each namespaced registryDependency resolved, keyed by the reference as written"),
+  envVars: z.record(z.string(), envVarSchema).optional().describe("Required env vars with rich config"),
   files: z.array(registryFileSchema),
   installDir: z.string().optional().describe("Target directory for package installation"),
   tsconfig: z.record(z.string(), z.array(z.string())).optional().describe("TSConfig path aliases to add"),
@@ -52,6 +91,15 @@ export const registryItemSchema = z.object({
   version: z.string().optional().default("1.0.0"),
   updatedAt: z.string().optional(),
   changelog: z.array(changelogEntrySchema).optional(),
+  skill: skillMetadataSchema.optional().describe("Parsed frontmatter of a kitn:skill's markdown file"),
+  deprecated: deprecationSchema.optional(),
+  yanked: z.record(z.string(), z.string()).optional().describe("Version → reason — still published, but never installed by default"),
+  renamedFrom: z.array(z.string()).optional().describe("Earlier names, which now redirect here"),
+  integrity: z.string().optional().describe("Combined digest of all files — compared against kitn.lock hash"),
+  republished: z.array(z.object({
+    date: z.string(),
+    previousIntegrity: z.string().optional(),
+  })).optional().describe("Times this version's files were overwritten with --allow-republish"),
 });
 export type RegistryItem = z.infer<typeof registryItemSchema>;
 
@@ -61,11 +109,23 @@ export const registryIndexItemSchema = z.object({
   type: componentType,
   description: z.string(),
   registryDependencies: z.array(z.string()).optional(),
+  resolvedDependencies: z.array(z.string()).optional().describe("Transitive registryDependencies in this registry, in install order"),
+  resolvedEnvVars: z.record(z.string(), envVarSchema.extend({
+    components: z.array(z.string()).describe("Components in the tree that declare it, in install order"),
+  })).optional().describe("Every env var the component and its dependency tree declare"),
   categories: z.array(z.string()).optional(),
   slot: z.string().optional(),
   version: z.string().optional(),
   versions: z.array(z.string()).optional(),
+  yanked: z.record(z.string(), z.string()).optional().describe("Entries of `versions` that were yanked, with the reason"),
+  distTags: z.object({
+    latest: z.string(),
+    next: z.string().optional().describe("Newest prerelease, when ahead of latest"),
+  }).optional().describe("Computed from `versions`, skipping yanked ones"),
+  deprecated: deprecationSchema.optional(),
+  renamedFrom: z.array(z.string()).optional(),
   updatedAt: z.string().optional(),
+  integrity: z.string().optional(),
 });
 export type RegistryIndexItem = z.infer<typeof registryIndexItemSchema>;
 
@@ -77,6 +137,120 @@ export const registryIndexSchema = z.object({
 });
 export type RegistryIndex = z.infer<typeof registryIndexSchema>;
 
+// Inverted search index (r/search-index.json), queried with src/search.ts
+export const searchIndexSchema = z.object({
+  $schema: z.string().optional(),
+  version: z.literal(1),
+  fields: z.array(z.string()).describe("Field names, in the bit order used by postings"),
+  documents: z.array(z.object({
+    name: z.string(),
+    type: componentType,
+    description: z.string(),
+    deprecated: z.literal(true).optional(),
+  })),
+  terms: z.record(z.string(), z.array(z.tuple([z.number().int(), z.number().int()])))
+    .describe("Token → [document index, bitmask of fields containing it]"),
+});
+export type SearchIndex = z.infer<typeof searchIndexSchema>;
+
+// Left at a renamed component's old name (r/<type>/<old-name>.json) so
+// clients fetching the old name find the new one
+export const registryRedirectSchema = z.object({
+  $schema: z.string().optional(),
+  name: z.string().describe("The old name"),
+  type: componentType,
+  redirect: z.string().describe("Current name — fetch <type>/<redirect>.json instead"),
+}).strict();
+export type RegistryRedirect = z.infer<typeof registryRedirectSchema>;
+
+// Changes between two versions of a component — `bun run diff`, and
+// r/<type>/<name>@<from>..<to>.diff.json when built with --diffs
+export const registryItemDiffSchema = z.object({
+  $schema: z.string().optional(),
+  name: z.string(),
+  type: componentType,
+  from: z.string().describe("Older version"),
+  to: z.string().describe("Newer version"),
+  metadata: z.array(z.object({
+    field: z.enum(["dependencies", "envVars", "registryDependencies", "slot"]),
+    key: z.string().optional().describe("Package, env var or component name — omitted for slot"),
+    change: z.enum(["added", "removed", "modified"]),
+    before: z.unknown().optional(),
+    after: z.unknown().optional(),
+  })),
+  files: z.array(z.object({
+    path: z.string(),
+    change: z.enum(["added", "removed", "modified"]),
+    patch: z.string().describe("Unified diff of the file content"),
+  })),
+});
+export type RegistryItemDiff = z.infer<typeof registryItemDiffSchema>;
+export type MetadataChange = RegistryItemDiff["metadata"][number];
+
+// Detached signatures for published files (r/signatures.json)
+export const signatureManifestSchema = z.object({
+  $schema: z.string().optional(),
+  algorithm: z.literal("ed25519"),
+  publicKey: z.string().describe("base64url raw ed25519 public key"),
+  signatures: z.record(z.string(), z.string()).describe("Path relative to r/ → base64 signature of the file bytes"),
+});
+export type SignatureManifest = z.infer<typeof signatureManifestSchema>;
+
+// registry.config.json — other registries that components may depend on
+export const registryConfigSchema = z.object({
+  $schema: z.string().optional(),
+  registries: z.record(
+    z.string().regex(/^@[a-z0-9][a-z0-9-]*$/, "must be @ followed by lowercase letters, digits and dashes"),
+    z.object({
+      url: z.string().url().regex(/^https?:\/\//, "must be an http(s) URL").describe("Base URL — the directory holding registry.json"),
+      snapshot: z.string().min(1).describe("Local copy of its registry.json, relative to the repo root"),
+    }).strict(),
+  ),
+}).strict();
+export type RegistryConfig = z.infer<typeof registryConfigSchema>;
+
+// npm spec — package name with an optional version range, e.g. "zod@^3"
+const dependencySpecSchema = z.string().refine(
+  (spec) => parseDependencySpec(spec) !== null,
+  "must be an npm package name, optionally with a version range (e.g. zod@^3)",
+);
+
+// A component in this registry, or @namespace/name[@range] in another
+const registryRefSchema = z.string().refine(
+  (ref) => parseRegistryRef(ref) !== null,
+  "must be a component name, or @namespace/name with an optional version range (e.g. @acme/weather-tool@^1)",
+);
+
+// Component source manifest (components/<type>/<name>/manifest.json).
+// Strict — unknown keys are rejected so typos don't silently drop fields.
+export const manifestSchema = z.object({
+  $schema: z.string().optional(),
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "must be lowercase letters, digits and dashes"),
+  type: componentType,
+  description: z.string().min(1, "must not be empty"),
+  version: z.string().refine(isValidVersion, "must be a valid semver version"),
+  files: z.array(z.string().min(1)).min(1, "must list at least one file"),
+  dependencies: z.array(dependencySpecSchema).optional(),
+  devDependencies: z.array(dependencySpecSchema).optional(),
+  registryDependencies: z.array(registryRefSchema).optional(),
+  envVars: z.record(z.string(), envVarSchema.strict()).optional(),
+  installDir: z.string().optional(),
+  tsconfig: z.record(z.string(), z.array(z.string())).optional(),
+  docs: z.string().optional(),
+  categories: z.array(z.string()).optional(),
+  slot: z.string().optional(),
+  changelog: z.array(changelogEntrySchema.extend({
+    version: z.string().refine(isValidVersion, "must be a valid semver version"),
+  }).strict()).optional(),
+  deprecated: deprecationSchema.optional(),
+  yanked: z.record(
+    z.string().refine(isValidVersion, "must be a valid semver version"),
+    z.string().min(1, "needs a reason"),
+  ).optional(),
+  renamedFrom: z.array(z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "must be lowercase letters, digits and dashes")).optional(),
+}).strict();
+export type Manifest = z.infer<typeof manifestSchema>;
+
 // Installed component tracking
 export const installedComponentSchema = z.object({
   registry: z.string().optional(),
@@ -85,7 +259,7 @@ export const installedComponentSchema = z.object({
   version: z.string(),
   installedAt: z.string(),
   files: z.array(z.string()),
-  hash: z.string(),
+  hash: z.string().describe("Item integrity at install time"),
   registryDependencies: z.array(z.string()).optional(),
 });
 export type InstalledComponent = z.infer<typeof installedComponentSchema>;
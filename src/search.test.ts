@@ -0,0 +1,92 @@
+import { describe, it, expect } from "bun:test";
+import { buildSearchIndex, searchRegistry, tokenize, type SearchDocument } from "./search.js";
+import { searchIndexSchema } from "./schema.js";
+
+const registry: SearchDocument[] = [
+  {
+    name: "weather-tool",
+    type: "kitn:tool",
+    description: "Current conditions for a city",
+    categories: ["weather", "api"],
+    exports: ["weatherTool", "fetchForecast"],
+  },
+  {
+    name: "weather-agent",
+    type: "kitn:agent",
+    description: "Answers questions about the weather",
+    exports: ["weatherAgent"],
+  },
+  {
+    name: "forecast-skill",
+    type: "kitn:skill",
+    description: "How to read a forecast",
+    skill: { description: "Explains weather forecasts", tags: ["meteorology"] },
+  },
+  {
+    name: "old-weather-tool",
+    type: "kitn:tool",
+    description: "Current conditions for a city",
+    categories: ["weather"],
+    deprecated: true,
+  },
+  {
+    name: "kv-store",
+    type: "kitn:storage",
+    description: "Key-value storage backed by Redis",
+    exports: ["createStore", "constructor"],
+  },
+];
+
+const index = buildSearchIndex(registry);
+const names = (query: string, options?: Parameters<typeof searchRegistry>[2]) =>
+  searchRegistry(index, query, options).map((r) => r.name);
+
+describe("tokenize", () => {
+  it("splits case and separators, dropping stop words and single characters", () => {
+    expect(tokenize("fetchWeather-tool for a HTTPClient v2_api")).toEqual(["fetch", "weather", "tool", "http", "client", "v2", "api"]);
+  });
+});
+
+describe("buildSearchIndex", () => {
+  it("produces a valid index with a field mask per posting", () => {
+    expect(searchIndexSchema.safeParse(index).success).toBe(true);
+    // "weather" is in weather-tool's name (bit 0), categories (bit 1) and exports (bit 3)
+    expect(index.terms.weather).toContainEqual([0, 0b1011]);
+    expect(index.terms.meteorology).toEqual([[2, 0b100]]);
+    expect(index.documents[3]).toEqual({ name: "old-weather-tool", type: "kitn:tool", description: "Current conditions for a city", deprecated: true });
+  });
+});
+
+describe("searchRegistry", () => {
+  it("ranks name matches above exports, skill frontmatter and descriptions", () => {
+    expect(names("forecast")).toEqual(["forecast-skill", "weather-tool"]);
+    expect(names("weather")).toEqual(["weather-agent", "weather-tool", "old-weather-tool", "forecast-skill"]);
+  });
+
+  it("puts an exact name first", () => {
+    expect(names("weather-tool")[0]).toBe("weather-tool");
+    expect(names("weather tool")).toEqual(["weather-tool", "old-weather-tool"]);
+  });
+
+  it("requires every word, matching the last one as a prefix while typing", () => {
+    expect(names("redis stor")).toEqual(["kv-store"]);
+    expect(names("redis stor ")).toEqual([]);
+    expect(names("weather ag")).toEqual(["weather-agent"]);
+  });
+
+  it("ranks deprecated components below their replacements", () => {
+    // Same description — alphabetical order alone would put old-weather-tool first
+    expect(names("current conditions")).toEqual(["weather-tool", "old-weather-tool"]);
+  });
+
+  it("filters by type and limits results", () => {
+    expect(names("weather", { type: "kitn:tool" })).toEqual(["weather-tool", "old-weather-tool"]);
+    expect(names("weather", { limit: 1 })).toEqual(["weather-agent"]);
+  });
+
+  it("finds nothing for empty queries or prototype keys", () => {
+    expect(names("   ")).toEqual([]);
+    expect(names("toString")).toEqual([]);
+    expect(names("constructor")).toEqual(["kv-store"]);
+  });
+});
@@ -0,0 +1,149 @@
+import type { ComponentType, SearchIndex } from "./schema.js";
+
+/**
+ * Full-text search over the registry.
+ *
+ * The build tokenizes every component's name, categories, skill
+ * frontmatter, exported identifiers and description into an inverted index
+ * (r/search-index.json). `searchRegistry` ranks components against it —
+ * index.html loads this module from r/search.js, and CLIs can import it.
+ *
+ * Only type imports, so the build can publish it as plain JavaScript.
+ */
+
+export interface SearchDocument {
+  name: string;
+  type: ComponentType;
+  description: string;
+  categories?: string[];
+  /** Skill frontmatter — its description and tags */
+  skill?: { description: string; tags?: string[] };
+  /** Identifiers exported by the component's source files */
+  exports?: string[];
+  deprecated?: boolean;
+}
+
+export interface SearchResult {
+  name: string;
+  type: ComponentType;
+  description: string;
+  score: number;
+}
+
+export interface SearchOptions {
+  type?: ComponentType;
+  limit?: number;
+}
+
+// Bit order of the field masks in postings — written into each index as `fields`
+export const searchFields = ["name", "categories", "skill", "exports", "description"] as const;
+type SearchField = (typeof searchFields)[number];
+
+// A query token found in a component's name outranks one found in its prose
+const fieldWeights: Record<SearchField, number> = { name: 10, categories: 5, skill: 3, exports: 4, description: 2 };
+
+const stopWords = new Set(["an", "and", "for", "from", "in", "is", "it", "of", "on", "or", "the", "to", "with"]);
+
+// Lowercased words, with camelCase, kebab-case and snake_case split apart:
+// "fetchWeather-tool" → ["fetch", "weather", "tool"]
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !stopWords.has(token));
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  // A Map, since tokens like "constructor" would collide with Object.prototype
+  const terms = new Map<string, Array<[number, number]>>();
+
+  for (const [doc, document] of documents.entries()) {
+    const fieldText: Record<SearchField, string[]> = {
+      name: [document.name],
+      categories: document.categories ?? [],
+      skill: document.skill ? [document.skill.description, ...(document.skill.tags ?? [])] : [],
+      exports: document.exports ?? [],
+      description: [document.description],
+    };
+
+    // Maps token → bitmask of the fields it appears in
+    const masks = new Map<string, number>();
+    for (const [bit, field] of searchFields.entries()) {
+      for (const token of fieldText[field].flatMap(tokenize)) masks.set(token, (masks.get(token) ?? 0) | (1 << bit));
+    }
+    for (const [token, mask] of masks) {
+      const postings = terms.get(token) ?? [];
+      postings.push([doc, mask]);
+      terms.set(token, postings);
+    }
+  }
+
+  return {
+    $schema: "https://kitn.dev/schema/search-index.json",
+    version: 1,
+    fields: [...searchFields],
+    documents: documents.map(({ name, type, description, deprecated }) =>
+      deprecated ? { name, type, description, deprecated: true as const } : { name, type, description }),
+    terms: Object.fromEntries([...terms].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))),
+  };
+}
+
+// Components matching every word of the query, best first. The last word
+// also matches as a prefix, so results keep up while someone is typing.
+export function searchRegistry(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+  const typingLastWord = !/\s$/.test(query);
+
+  let scores: Map<number, number> | undefined;
+  for (const [i, token] of tokens.entries()) {
+    const matches = new Map<number, number>();
+    const collect = (term: string, factor: number) => {
+      const postings = Object.hasOwn(index.terms, term) ? index.terms[term] : [];
+      for (const [doc, mask] of postings) {
+        const score = bestWeight(index.fields, mask) * factor;
+        if (score > (matches.get(doc) ?? 0)) matches.set(doc, score);
+      }
+    };
+
+    collect(token, 1);
+    if (typingLastWord && i === tokens.length - 1) {
+      for (const term of Object.keys(index.terms)) {
+        if (term !== token && term.startsWith(token)) collect(term, 0.5);
+      }
+    }
+
+    // Every word has to match somewhere
+    const next = new Map<number, number>();
+    for (const [doc, score] of matches) {
+      if (!scores || scores.has(doc)) next.set(doc, (scores?.get(doc) ?? 0) + score);
+    }
+    scores = next;
+  }
+
+  const wanted = query.trim().toLowerCase();
+  const results: SearchResult[] = [];
+  for (const [doc, total] of scores!) {
+    const { name, type, description, deprecated } = index.documents[doc];
+    if (options.type && type !== options.type) continue;
+    let score = total;
+    if (name === wanted) score += 20;
+    else if (name.startsWith(wanted)) score += 5;
+    // Still findable, but below whatever replaced it
+    if (deprecated) score /= 2;
+    results.push({ name, type, description, score });
+  }
+
+  results.sort((a, b) => b.score - a.score || a.name.localeCompare(b.name));
+  return options.limit === undefined ? results : results.slice(0, options.limit);
+}
+
+function bestWeight(fields: string[], mask: number): number {
+  let best = 0;
+  for (const [bit, field] of fields.entries()) {
+    if (mask & (1 << bit)) best = Math.max(best, fieldWeights[field as SearchField] ?? 0);
+  }
+  return best;
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "bun:test";
+import {
+  compareVersions,
+  computeDistTags,
+  incrementVersion,
+  isValidRange,
+  isValidVersion,
+  maxSatisfying,
+  parseVersion,
+  satisfies,
+  sortVersionsDescending,
+} from "./semver.js";
+
+describe("parseVersion", () => {
+  it("parses prerelease and build metadata", () => {
+    expect(parseVersion("1.2.3-beta.2+sha.abc")).toEqual({
+      major: 1,
+      minor: 2,
+      patch: 3,
+      prerelease: ["beta", 2],
+      build: ["sha", "abc"],
+    });
+  });
+
+  it("rejects invalid versions", () => {
+    for (const v of ["1.0", "1.0.0.0", "01.0.0", "1.0.0-", "v1.0.0", "1.0.0-beta..1", "latest"]) {
+      expect(isValidVersion(v)).toBe(false);
+    }
+  });
+});
+
+describe("compareVersions", () => {
+  it("orders versions by semver precedence", () => {
+    const ordered = [
+      "1.0.0-alpha",
+      "1.0.0-alpha.1",
+      "1.0.0-alpha.beta",
+      "1.0.0-beta",
+      "1.0.0-beta.2",
+      "1.0.0-beta.11",
+      "1.0.0-rc.1",
+      "1.0.0",
+      "1.2.0",
+      "1.10.0",
+    ];
+    const shuffled = [...ordered].reverse();
+    expect(sortVersionsDescending(shuffled)).toEqual([...ordered].reverse());
+    expect(compareVersions("1.0.0-beta.2", "1.0.0-beta.11")).toBeLessThan(0);
+  });
+
+  it("ignores build metadata", () => {
+    expect(compareVersions("1.0.0+a", "1.0.0+b")).toBe(0);
+  });
+});
+
+describe("incrementVersion", () => {
+  it.each([
+    ["1.2.3", "patch", undefined, "1.2.4"],
+    ["1.2.3", "minor", undefined, "1.3.0"],
+    ["1.2.3", "major", undefined, "2.0.0"],
+    ["1.2.3", "premajor", "beta", "2.0.0-beta.0"],
+    ["1.2.3", "preminor", "beta", "1.3.0-beta.0"],
+    ["1.2.3", "prepatch", undefined, "1.2.4-0"],
+    ["1.2.3", "prerelease", "beta", "1.2.4-beta.0"],
+    ["1.0.0-beta.2", "prerelease", "beta", "1.0.0-beta.3"],
+    ["1.0.0-beta.2", "prerelease", undefined, "1.0.0-beta.3"],
+    ["1.0.0-alpha.4", "prerelease", "beta", "1.0.0-beta.0"],
+    ["2.0.0-beta.1", "major", undefined, "2.0.0"],
+    ["1.3.0-beta.1", "minor", undefined, "1.3.0"],
+    ["1.2.4-beta.1", "patch", undefined, "1.2.4"],
+    ["1.2.3+build.5", "patch", undefined, "1.2.4"],
+  ] as const)("%s %s %s → %s", (version, release, preid, expected) => {
+    expect(incrementVersion(version, release, preid)).toBe(expected);
+  });
+
+  it("throws on invalid input instead of producing NaN", () => {
+    expect(() => incrementVersion("1.0", "patch")).toThrow(/Invalid semver/);
+  });
+});
+
+describe("computeDistTags", () => {
+  it("tags the newest stable version as latest", () => {
+    expect(computeDistTags(["0.1.0", "1.0.0", "0.9.0"])).toEqual({ latest: "1.0.0" });
+  });
+
+  it("tags a newer prerelease as next", () => {
+    expect(computeDistTags(["1.0.0", "1.1.0-beta.1", "1.1.0-beta.0"])).toEqual({
+      latest: "1.0.0",
+      next: "1.1.0-beta.1",
+    });
+  });
+
+  it("does not tag an older prerelease as next", () => {
+    expect(computeDistTags(["1.0.0", "1.0.0-rc.1"])).toEqual({ latest: "1.0.0" });
+  });
+
+  it("falls back to a prerelease when nothing is stable", () => {
+    expect(computeDistTags(["0.1.0-beta.1"])).toEqual({ latest: "0.1.0-beta.1" });
+  });
+});
+
+describe("satisfies", () => {
+  const cases: Array<[string, string[], string[]]> = [
+    ["^1.2.0", ["1.2.0", "1.9.9"], ["1.1.9", "2.0.0", "2.0.0-beta.1"]],
+    ["^0.2.1", ["0.2.1", "0.2.9"], ["0.3.0", "0.2.0"]],
+    ["^0.0.3", ["0.0.3"], ["0.0.4"]],
+    ["^1", ["1.0.0", "1.5.0"], ["2.0.0", "0.9.0"]],
+    ["~1.2", ["1.2.0", "1.2.7"], ["1.3.0"]],
+    ["~1.2.3", ["1.2.3", "1.2.9"], ["1.3.0", "1.2.2"]],
+    [">=1.0.0 <2", ["1.0.0", "1.99.0"], ["2.0.0", "0.9.0"]],
+    [">1.2", ["1.3.0"], ["1.2.9"]],
+    ["<=1.2", ["1.2.9"], ["1.3.0"]],
+    ["1.x || >=3.1.0", ["1.4.0", "3.1.0"], ["2.0.0", "3.0.0"]],
+    ["1.0.0 - 1.4", ["1.0.0", "1.4.9"], ["1.5.0"]],
+    ["1.2.3", ["1.2.3"], ["1.2.4"]],
+    ["*", ["0.0.1", "9.0.0"], ["1.0.0-beta.1"]],
+    ["", ["1.0.0"], []],
+    ["^1.2.3-beta.1", ["1.2.3-beta.2", "1.2.3", "1.4.0"], ["1.2.3-alpha.9", "1.4.0-beta.1"]],
+  ];
+
+  for (const [range, matching, failing] of cases) {
+    it(`"${range}"`, () => {
+      for (const v of matching) expect(satisfies(v, range)).toBe(true);
+      for (const v of failing) expect(satisfies(v, range)).toBe(false);
+    });
+  }
+
+  it("rejects invalid ranges", () => {
+    for (const range of ["latest", "^x.1", "1.2.x-beta", ">=", "1.0.0 - ", "~>1.0"]) {
+      expect(isValidRange(range)).toBe(false);
+    }
+    expect(isValidRange(">= 1.2.0 < 2")).toBe(true);
+  });
+});
+
+describe("maxSatisfying", () => {
+  it("picks the highest matching version", () => {
+    expect(maxSatisfying(["1.0.0", "1.3.0", "2.0.0", "1.4.0-beta.1"], "^1")).toBe("1.3.0");
+    expect(maxSatisfying(["2.0.0"], "^1")).toBeUndefined();
+  });
+});
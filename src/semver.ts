@@ -0,0 +1,327 @@
+/**
+ * Minimal semver 2.0.0 implementation shared by build, bump and validation.
+ *
+ * Covers parsing, precedence (prerelease identifiers compared per spec, build
+ * metadata ignored), npm-style increments including prereleases, npm-style
+ * ranges for cross-registry dependencies, and the `latest` / `next`
+ * dist-tags published in the registry index.
+ */
+
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease: Array<string | number>;
+  build: string[];
+}
+
+export type ReleaseType = "major" | "minor" | "patch" | "premajor" | "preminor" | "prepatch" | "prerelease";
+
+export const releaseTypes: readonly ReleaseType[] = [
+  "patch",
+  "minor",
+  "major",
+  "prepatch",
+  "preminor",
+  "premajor",
+  "prerelease",
+];
+
+export interface DistTags {
+  /** Highest stable version, or the highest version if none are stable */
+  latest: string;
+  /** Highest prerelease, when it is newer than `latest` */
+  next?: string;
+}
+
+const NUMERIC = "0|[1-9]\\d*";
+const IDENTIFIER = `(?:${NUMERIC}|\\d*[a-zA-Z-][0-9a-zA-Z-]*)`;
+const SEMVER_PATTERN = new RegExp(
+  `^(${NUMERIC})\\.(${NUMERIC})\\.(${NUMERIC})` +
+    `(?:-(${IDENTIFIER}(?:\\.${IDENTIFIER})*))?` +
+    `(?:\\+([0-9a-zA-Z-]+(?:\\.[0-9a-zA-Z-]+)*))?$`,
+);
+
+export function parseVersion(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split(".").map((id) => (/^\d+$/.test(id) ? Number(id) : id)) : [],
+    build: match[5] ? match[5].split(".") : [],
+  };
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+export function isPrerelease(version: string): boolean {
+  return (parseVersion(version)?.prerelease.length ?? 0) > 0;
+}
+
+export function formatVersion(v: SemVer): string {
+  let out = `${v.major}.${v.minor}.${v.patch}`;
+  if (v.prerelease.length) out += `-${v.prerelease.join(".")}`;
+  if (v.build.length) out += `+${v.build.join(".")}`;
+  return out;
+}
+
+// Semver precedence: negative if a < b, positive if a > b, 0 if equal.
+// Throws on invalid input — callers validate versions before comparing.
+export function compareVersions(a: string, b: string): number {
+  const va = mustParse(a);
+  const vb = mustParse(b);
+
+  for (const key of ["major", "minor", "patch"] as const) {
+    if (va[key] !== vb[key]) return va[key] - vb[key];
+  }
+
+  // A version without prerelease has higher precedence
+  if (!va.prerelease.length || !vb.prerelease.length) {
+    return vb.prerelease.length - va.prerelease.length;
+  }
+
+  for (let i = 0; i < Math.max(va.prerelease.length, vb.prerelease.length); i++) {
+    const x = va.prerelease[i];
+    const y = vb.prerelease[i];
+    if (x === undefined) return -1;
+    if (y === undefined) return 1;
+    if (x === y) continue;
+    // Numeric identifiers sort before alphanumeric ones
+    if (typeof x === "number" && typeof y === "number") return x - y;
+    if (typeof x === "number") return -1;
+    if (typeof y === "number") return 1;
+    return x < y ? -1 : 1;
+  }
+  return 0;
+}
+
+// Newest first — the order used for `versions` in the registry index
+export function sortVersionsDescending(versions: string[]): string[] {
+  return [...versions].sort((a, b) => compareVersions(b, a));
+}
+
+// Same semantics as `npm version <release> --preid <preid>`
+export function incrementVersion(version: string, release: ReleaseType, preid?: string): string {
+  const v = mustParse(version);
+  const pre = v.prerelease.length > 0;
+  const base = preid ? [preid, 0] : [0];
+  let next: SemVer;
+
+  switch (release) {
+    case "major":
+      // 2.0.0-beta.1 → 2.0.0 (the prerelease was already for this major)
+      next = pre && v.minor === 0 && v.patch === 0
+        ? { ...v, prerelease: [] }
+        : { ...v, major: v.major + 1, minor: 0, patch: 0, prerelease: [] };
+      break;
+    case "minor":
+      next = pre && v.patch === 0
+        ? { ...v, prerelease: [] }
+        : { ...v, minor: v.minor + 1, patch: 0, prerelease: [] };
+      break;
+    case "patch":
+      next = pre ? { ...v, prerelease: [] } : { ...v, patch: v.patch + 1, prerelease: [] };
+      break;
+    case "premajor":
+      next = { ...v, major: v.major + 1, minor: 0, patch: 0, prerelease: base };
+      break;
+    case "preminor":
+      next = { ...v, minor: v.minor + 1, patch: 0, prerelease: base };
+      break;
+    case "prepatch":
+      next = { ...v, patch: v.patch + 1, prerelease: base };
+      break;
+    case "prerelease":
+      if (!pre) {
+        next = { ...v, patch: v.patch + 1, prerelease: base };
+      } else if (preid && v.prerelease[0] !== preid) {
+        next = { ...v, prerelease: base };
+      } else {
+        next = { ...v, prerelease: bumpPrerelease(v.prerelease) };
+      }
+      break;
+  }
+
+  return formatVersion({ ...next, build: [] });
+}
+
+export function computeDistTags(versions: string[]): DistTags | undefined {
+  const sorted = sortVersionsDescending(versions.filter(isValidVersion));
+  if (sorted.length === 0) return undefined;
+
+  const latest = sorted.find((v) => !isPrerelease(v)) ?? sorted[0];
+  const next = sorted.find((v) => isPrerelease(v) && compareVersions(v, latest) > 0);
+  return next ? { latest, next } : { latest };
+}
+
+interface Comparator {
+  op: "<" | "<=" | ">" | ">=" | "=";
+  version: string;
+}
+
+// npm range syntax: "^1.2", "~1.2.3", ">=1 <2", "1.x", "*", "1.0.0 - 1.4",
+// alternatives joined with "||". As in npm, a prerelease only satisfies a
+// range that names a prerelease of the same major.minor.patch.
+export function satisfies(version: string, range: string): boolean {
+  const v = parseVersion(version);
+  const sets = parseRange(range);
+  if (!v || !sets) return false;
+  return sets.some((set) =>
+    set.every(({ op, version: bound }) => compareWith(op, compareVersions(version, bound))) &&
+    (v.prerelease.length === 0 || set.some((c) => samePatchPrerelease(v, mustParse(c.version)))),
+  );
+}
+
+export function isValidRange(range: string): boolean {
+  return parseRange(range) !== null;
+}
+
+// Highest version that satisfies the range, if any
+export function maxSatisfying(versions: string[], range: string): string | undefined {
+  return sortVersionsDescending(versions.filter(isValidVersion)).find((v) => satisfies(v, range));
+}
+
+function compareWith(op: Comparator["op"], order: number): boolean {
+  switch (op) {
+    case "<": return order < 0;
+    case "<=": return order <= 0;
+    case ">": return order > 0;
+    case ">=": return order >= 0;
+    case "=": return order === 0;
+  }
+}
+
+function samePatchPrerelease(v: SemVer, bound: SemVer): boolean {
+  return bound.prerelease.length > 0 && bound.major === v.major && bound.minor === v.minor && bound.patch === v.patch;
+}
+
+// A version with missing or wildcard parts: "1", "1.2", "1.x", "*"
+interface PartialVersion {
+  major?: number;
+  minor?: number;
+  patch?: number;
+  /** Prerelease and build of a full version, e.g. "-beta.1" */
+  suffix: string;
+}
+
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?((?:-[0-9A-Za-z.-]+)?(?:\+[0-9A-Za-z.-]+)?)$/;
+
+function parsePartial(text: string): PartialVersion | null {
+  const match = PARTIAL_PATTERN.exec(text);
+  if (!match) return null;
+  const part = (value?: string) => (value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value));
+  const partial = { major: part(match[1]), minor: part(match[2]), patch: part(match[3]), suffix: match[4] };
+  // Nothing may follow a wildcard, and only full versions take a prerelease
+  if (partial.major === undefined && (partial.minor !== undefined || partial.patch !== undefined)) return null;
+  if (partial.minor === undefined && partial.patch !== undefined) return null;
+  if (partial.suffix && partial.patch === undefined) return null;
+  if (partial.suffix && !isValidVersion(`${partial.major}.${partial.minor}.${partial.patch}${partial.suffix}`)) return null;
+  return partial;
+}
+
+const at = (major: number, minor = 0, patch = 0, suffix = "") => `${major}.${minor}.${patch}${suffix}`;
+
+// Lowest version a partial covers
+function lower({ major, minor, patch, suffix }: PartialVersion): string {
+  return at(major ?? 0, minor, patch, suffix);
+}
+
+// First version above everything a partial covers — undefined for "*"
+function upper({ major, minor, patch }: PartialVersion): string | undefined {
+  if (major === undefined) return undefined;
+  if (minor === undefined) return at(major + 1);
+  if (patch === undefined) return at(major, minor + 1);
+  return undefined;
+}
+
+function parseRange(range: string): Comparator[][] | null {
+  const sets: Comparator[][] = [];
+  for (const alternative of range.split("||")) {
+    const text = alternative.trim().replace(/(\^|~|[<>]=?|=)\s+/g, "$1");
+    const comparators: Comparator[] = [];
+
+    const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(text);
+    if (hyphen) {
+      const from = parsePartial(hyphen[1]);
+      const to = parsePartial(hyphen[2]);
+      if (!from || !to) return null;
+      comparators.push({ op: ">=", version: lower(from) });
+      const end = upper(to);
+      if (end) comparators.push({ op: "<", version: end });
+      else if (to.patch !== undefined) comparators.push({ op: "<=", version: lower(to) });
+      sets.push(comparators);
+      continue;
+    }
+
+    for (const part of text ? text.split(/\s+/) : ["*"]) {
+      const parsed = parseComparator(part);
+      if (!parsed) return null;
+      comparators.push(...parsed);
+    }
+    sets.push(comparators);
+  }
+  return sets;
+}
+
+function parseComparator(text: string): Comparator[] | null {
+  const match = /^(\^|~|[<>]=?|=)?(.+)$/.exec(text);
+  if (!match) return null;
+  const op = match[1] ?? "";
+  const partial = parsePartial(match[2]);
+  if (!partial) return null;
+  const { major, minor, patch } = partial;
+  const full = patch !== undefined;
+  const from = lower(partial);
+  const end = upper(partial);
+
+  switch (op) {
+    case "":
+    case "=":
+      if (full) return [{ op: "=", version: from }];
+      return major === undefined ? [] : [{ op: ">=", version: from }, { op: "<", version: end! }];
+    case "^": {
+      if (major === undefined) return [];
+      // The leftmost non-zero part may not change
+      const next = major > 0 || minor === undefined ? at(major + 1)
+        : minor > 0 || patch === undefined ? at(0, minor + 1)
+        : at(0, 0, patch + 1);
+      return [{ op: ">=", version: from }, { op: "<", version: next }];
+    }
+    case "~":
+      if (major === undefined) return [];
+      return [{ op: ">=", version: from }, { op: "<", version: minor === undefined ? at(major + 1) : at(major, minor + 1) }];
+    case ">=":
+      return major === undefined ? [] : [{ op: ">=", version: from }];
+    case ">":
+      if (major === undefined) return [{ op: "<", version: "0.0.0-0" }];
+      return full ? [{ op: ">", version: from }] : [{ op: ">=", version: end! }];
+    case "<":
+      return major === undefined ? [{ op: "<", version: "0.0.0-0" }] : [{ op: "<", version: from }];
+    case "<=":
+      if (major === undefined) return [];
+      return full ? [{ op: "<=", version: from }] : [{ op: "<", version: end! }];
+  }
+  return null;
+}
+
+function bumpPrerelease(ids: Array<string | number>): Array<string | number> {
+  const out = [...ids];
+  for (let i = out.length - 1; i >= 0; i--) {
+    const id = out[i];
+    if (typeof id === "number") {
+      out[i] = id + 1;
+      return out;
+    }
+  }
+  return [...out, 0];
+}
+
+function mustParse(version: string): SemVer {
+  const parsed = parseVersion(version);
+  if (!parsed) throw new Error(`Invalid semver version: "${version}"`);
+  return parsed;
+}
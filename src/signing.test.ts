@@ -0,0 +1,72 @@
+import { describe, it, expect } from "bun:test";
+import {
+  generateSigningKeyPair,
+  publicKeyFromPrivateKey,
+  signBytes,
+  verifyBytes,
+  verifySignedFile,
+} from "./signing.js";
+import { signatureManifestSchema, type SignatureManifest } from "./schema.js";
+
+// Throwaway keys — generated per run, never persisted
+const keys = generateSigningKeyPair();
+const otherKeys = generateSigningKeyPair();
+
+describe("signBytes / verifyBytes", () => {
+  it("round-trips with the matching public key", () => {
+    const signature = signBytes('{"name":"weather-tool"}', keys.privateKey);
+    expect(verifyBytes('{"name":"weather-tool"}', signature, keys.publicKey)).toBe(true);
+  });
+
+  it("rejects modified data", () => {
+    const signature = signBytes('{"name":"weather-tool"}', keys.privateKey);
+    expect(verifyBytes('{"name":"weather-tool "}', signature, keys.publicKey)).toBe(false);
+  });
+
+  it("rejects a different key", () => {
+    const signature = signBytes("data", keys.privateKey);
+    expect(verifyBytes("data", signature, otherKeys.publicKey)).toBe(false);
+  });
+
+  it("returns false for a malformed public key", () => {
+    expect(verifyBytes("data", signBytes("data", keys.privateKey), "not-a-key")).toBe(false);
+  });
+
+  it("derives the public key from the private key", () => {
+    expect(publicKeyFromPrivateKey(keys.privateKey)).toBe(keys.publicKey);
+  });
+});
+
+describe("verifySignedFile", () => {
+  const content = JSON.stringify({ name: "weather-tool", version: "1.0.0" });
+  const manifest: SignatureManifest = signatureManifestSchema.parse({
+    algorithm: "ed25519",
+    publicKey: keys.publicKey,
+    signatures: { "tools/weather-tool@1.0.0.json": signBytes(content, keys.privateKey) },
+  });
+
+  it("accepts a file signed by the pinned key", () => {
+    expect(verifySignedFile(manifest, "tools/weather-tool@1.0.0.json", content, keys.publicKey)).toEqual({ ok: true });
+  });
+
+  it("rejects a manifest signed by an unpinned key", () => {
+    expect(verifySignedFile(manifest, "tools/weather-tool@1.0.0.json", content, otherKeys.publicKey)).toEqual({
+      ok: false,
+      reason: "untrusted-key",
+    });
+  });
+
+  it("rejects files without a signature", () => {
+    expect(verifySignedFile(manifest, "tools/other.json", content, keys.publicKey)).toEqual({
+      ok: false,
+      reason: "unsigned",
+    });
+  });
+
+  it("rejects tampered content", () => {
+    expect(verifySignedFile(manifest, "tools/weather-tool@1.0.0.json", content + " ", keys.publicKey)).toEqual({
+      ok: false,
+      reason: "bad-signature",
+    });
+  });
+});
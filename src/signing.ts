@@ -0,0 +1,69 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from "crypto";
+import type { SignatureManifest } from "./schema.js";
+
+/**
+ * Detached ed25519 signatures for published registry files.
+ *
+ * The build signs the exact bytes of every JSON file in r/ and records the
+ * signatures in r/signatures.json, keyed by path relative to r/. Private keys
+ * are PKCS#8 PEM; public keys are the raw 32-byte key, base64url encoded
+ * (the JWK `x` value), which is short enough to pin in client config.
+ */
+
+export const SIGNATURE_ALGORITHM = "ed25519";
+export const SIGNATURE_MANIFEST_FILE = "signatures.json";
+
+export interface SigningKeyPair {
+  /** PKCS#8 PEM — keep secret */
+  privateKey: string;
+  /** base64url raw public key — safe to publish and pin */
+  publicKey: string;
+}
+
+export function generateSigningKeyPair(): SigningKeyPair {
+  const { privateKey } = generateKeyPairSync("ed25519");
+  const pem = privateKey.export({ format: "pem", type: "pkcs8" }).toString();
+  return { privateKey: pem, publicKey: publicKeyFromPrivateKey(pem) };
+}
+
+export function publicKeyFromPrivateKey(privateKeyPem: string): string {
+  const jwk = createPublicKey(createPrivateKey(privateKeyPem)).export({ format: "jwk" });
+  return jwk.x!;
+}
+
+export function signBytes(data: string | Uint8Array, privateKeyPem: string): string {
+  return sign(null, toBuffer(data), createPrivateKey(privateKeyPem)).toString("base64");
+}
+
+export function verifyBytes(data: string | Uint8Array, signature: string, publicKey: string): boolean {
+  try {
+    const key = createPublicKey({ key: { kty: "OKP", crv: "Ed25519", x: publicKey }, format: "jwk" });
+    return verify(null, toBuffer(data), key, Buffer.from(signature, "base64"));
+  } catch {
+    // Malformed key or signature
+    return false;
+  }
+}
+
+export type SignatureCheck =
+  | { ok: true }
+  | { ok: false; reason: "untrusted-key" | "unsigned" | "bad-signature" };
+
+// Validate a downloaded file against a signature manifest and a pinned key.
+// `path` is relative to r/, e.g. "tools/weather-tool@1.0.0.json".
+export function verifySignedFile(
+  manifest: SignatureManifest,
+  path: string,
+  data: string | Uint8Array,
+  pinnedPublicKey: string,
+): SignatureCheck {
+  if (manifest.publicKey !== pinnedPublicKey) return { ok: false, reason: "untrusted-key" };
+  const signature = manifest.signatures[path];
+  if (!signature) return { ok: false, reason: "unsigned" };
+  if (!verifyBytes(data, signature, pinnedPublicKey)) return { ok: false, reason: "bad-signature" };
+  return { ok: true };
+}
+
+function toBuffer(data: string | Uint8Array): Buffer {
+  return typeof data === "string" ? Buffer.from(data, "utf8") : Buffer.from(data);
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "bun:test";
+import { findRelativeLinks, findSkillFile } from "./skill.js";
+
+describe("findSkillFile", () => {
+  it("picks the first markdown file", () => {
+    expect(findSkillFile(["helper.ts", "SKILL.md", "docs/extra.md"])).toBe("SKILL.md");
+    expect(findSkillFile(["helper.ts"])).toBeUndefined();
+  });
+});
+
+describe("findRelativeLinks", () => {
+  it("finds relative links and images with their locations", () => {
+    const markdown = [
+      "See [the guide](docs/guide.md#setup) and ![diagram](./img/flow.png \"Flow\").",
+      "Also [site](https://kitn.dev), [mail](mailto:a@b.c), [top](#usage) and [root](/abs.md).",
+      "Inline `[code](nope.md)` is skipped.",
+      "```md",
+      "[fenced](nope.md)",
+      "```",
+      "[last](../shared.md)",
+    ].join("\n");
+
+    expect(findRelativeLinks(markdown, 10)).toEqual([
+      { target: "docs/guide.md", line: 10, column: 17 },
+      { target: "./img/flow.png", line: 10, column: 53 },
+      { target: "../shared.md", line: 16, column: 8 },
+    ]);
+  });
+});
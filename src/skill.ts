@@ -0,0 +1,40 @@
+/**
+ * Skill markdown helpers. The frontmatter itself is parsed by
+ * `parseFrontmatter` and validated against `skillMetadataSchema`.
+ */
+
+export interface MarkdownLink {
+  target: string;
+  line: number;
+  column: number;
+}
+
+// The markdown file that carries a skill's frontmatter: the first .md in `files`
+export function findSkillFile(files: string[]): string | undefined {
+  return files.find((file) => file.endsWith(".md"));
+}
+
+// Inline links and images pointing at relative paths — URLs, mailto:,
+// in-page #anchors and anything inside code are skipped. `#fragment`s are
+// stripped from the returned targets.
+export function findRelativeLinks(markdown: string, firstLine = 1): MarkdownLink[] {
+  const links: MarkdownLink[] = [];
+  let inFence = false;
+
+  for (const [i, line] of markdown.split("\n").entries()) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    // Blank out inline code so links inside it aren't matched
+    const text = line.replace(/`[^`]*`/g, (code) => " ".repeat(code.length));
+    for (const match of text.matchAll(/!?\[[^\]]*\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g)) {
+      const target = match[1].split("#")[0];
+      if (!target || /^[a-z][a-z0-9+.-]*:/i.test(target) || target.startsWith("/")) continue;
+      links.push({ target, line: firstLine + i, column: match.index + match[0].indexOf(match[1]) + 1 });
+    }
+  }
+  return links;
+}